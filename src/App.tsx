@@ -1,22 +1,40 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Conversation, Message, MessageSender } from '../types';
-import { Toaster } from 'react-hot-toast';
+import { Conversation, ConversationChanges, ConversationFolder, Message, MessageSender } from '../types';
+import { Toaster, toast } from 'react-hot-toast';
 import { HiOutlineMenuAlt3 } from 'react-icons/hi';
-import { FiArrowDown } from 'react-icons/fi';
+import { FiArrowDown, FiDownload } from 'react-icons/fi';
 import { supabase } from './lib/supabaseClient';
 import * as supabaseStorage from './services/supabaseStorageService';
-import { sendMessageToWebhook } from './services/n8nService';
+import * as syncService from './services/syncService';
+import * as folderService from './services/folderService';
+import { subscribeToRemoteChanges, applyRemoteChange } from './services/realtimeService';
+import { SearchResult } from './services/searchService';
+import { getActivePath, getSiblingIds, getLatestLeafId, withoutFailedMessages } from './services/messageTree';
+import { streamMessage, cancelActiveRequests } from './services/aiService';
+import { CodeFile, extractCodeFiles } from './services/codeFiles';
+import { toAIRequestError } from './services/providers';
 import { checkRateLimit, incrementMessageCount, getRateLimitStatus, RateLimitInfo } from './services/rateLimitServices';
 import { Sidebar } from './components/Sidebar';
 import { ChatInput } from './components/ChatInput';
 import { ChatMessage } from './components/ChatMessage';
 import { Welcome } from './components/Welcome';
-import { SettingsLayout } from './components/settings/SettingsLayout';
+import { SettingsLayout, SettingsTab } from './components/settings/SettingsLayout';
 import { UpdateModal } from './components/Update';
 import { Auth } from './components/Auth';
 import { RateLimitWarning } from './components/RateLimitWarning';
+import { ExportConversationModal } from './components/ExportConversationModal';
 import { useLocalization } from './contexts/LocalizationContext';
 
+// Placeholder for an AI answer that is about to be generated
+const createPendingAiMessage = (parentId: string): Message => ({
+  id: crypto.randomUUID(),
+  text: '...',
+  sender: MessageSender.AI,
+  parentId,
+  createdAt: new Date().toISOString(),
+  status: 'pending',
+});
+
 function App() {
   const { t } = useLocalization();
 
@@ -25,13 +43,25 @@ function App() {
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  // Cursor for the next page of the sidebar list; null once everything is loaded
+  const [conversationsCursor, setConversationsCursor] = useState<string | null>(null);
+  const [folders, setFolders] = useState<ConversationFolder[]>([]);
+  const [isLoadingConversations, setIsLoadingConversations] = useState(false);
+  const [loadingMessagesFor, setLoadingMessagesFor] = useState<string | null>(null);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<syncService.SyncStatus>(syncService.getSyncStatus());
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Progress of automatic retries for the message being generated
+  const [retryProgress, setRetryProgress] = useState<{ messageId: string; retry: number; maxRetries: number } | null>(null);
   const [isSidebarOpen, setSidebarOpen] = useState(false);
   const [isSidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [view, setView] = useState<'chat' | 'settings'>('chat');
   const [showScrollButton, setShowScrollButton] = useState(false);
   const [canvasWidth, setCanvasWidth] = useState(0);
-  const [settingsTab, setSettingsTab] = useState<'general' | 'account' | 'billing' | 'storage' | 'language' | 'about' | 'logout'>('general');
+  const [settingsTab, setSettingsTab] = useState<SettingsTab>('general');
   const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitInfo>({
     messagesRemaining: 50,
     maxMessages: 50,
@@ -42,6 +72,14 @@ function App() {
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const mainContainerRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set before prepending older messages so the view doesn't jump to the bottom
+  const skipAutoScrollRef = useRef(false);
+  // Message to scroll to after the next render, instead of the bottom
+  const jumpTargetRef = useRef<string | null>(null);
+  // Read by the realtime handler, which is subscribed once per session
+  const streamingMessageIdRef = useRef<string | null>(null);
+  const conversationsRef = useRef<Conversation[]>([]);
 
   // Check authentication status on mount
   useEffect(() => {
@@ -69,22 +107,186 @@ function App() {
     };
   }, []);
 
-  // Load conversations from Supabase
+  // Show cached conversations right away, then the first page (metadata only) from Supabase.
+  // Pinned, archived and filed conversations are loaded in full for their sidebar sections.
   useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let isCancelled = false;
+
+    const loadFromServer = async (userId: string, cachedIds: Set<string>) => {
+      setIsLoadingConversations(true);
+      try {
+        const [page, organized, loadedFolders] = await Promise.all([
+          supabaseStorage.getConversationPage(),
+          supabaseStorage.getOrganizedConversations().catch(() => []),
+          folderService.getFolders().catch(() => null),
+        ]);
+        const pageIds = new Set(page.conversations.map((c) => c.id));
+        const merged = await syncService.mergeWithCache(
+          userId,
+          [...page.conversations, ...organized.filter((c) => !pageIds.has(c.id))],
+          true
+        );
+        if (isCancelled) return;
+
+        if (loadedFolders) setFolders(loadedFolders);
+
+        const mergedIds = new Set(merged.map((c) => c.id));
+        // Keep conversations started in this session before the page arrived
+        setConversations((prev) => [
+          ...prev.filter((c) => !mergedIds.has(c.id) && !cachedIds.has(c.id)),
+          ...merged,
+        ]);
+        setConversationsCursor(page.nextCursor);
+      } catch (error) {
+        console.error('Error loading conversations:', error);
+        // Offline: keep the cached list and try again once the connection is back
+        window.addEventListener('online', () => {
+          if (!isCancelled) loadFromServer(userId, cachedIds);
+        }, { once: true });
+      } finally {
+        if (!isCancelled) setIsLoadingConversations(false);
+      }
+    };
+
     const loadConversations = async () => {
-      if (isAuthenticated) {
-        try {
-          const convs = await supabaseStorage.getConversations();
-          setConversations(convs);
-        } catch (error) {
-          console.error('Error loading conversations:', error);
-        }
+      const { data: { session } } = await supabase.auth.getSession();
+      const userId = session?.user.id;
+      if (!userId || isCancelled) return;
+
+      await syncService.startSync(userId);
+
+      const cached = await syncService.getCachedConversationList(userId);
+      if (isCancelled) return;
+      if (cached.length > 0) {
+        setConversations(cached);
       }
+
+      await loadFromServer(userId, new Set(cached.map((c) => c.id)));
     };
 
     loadConversations();
+
+    return () => {
+      isCancelled = true;
+      syncService.stopSync();
+    };
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    streamingMessageIdRef.current = streamingMessageId;
+  }, [streamingMessageId]);
+
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  // Conversations imported from Settings; messages are fetched when one is opened
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const handleImported = ((e: CustomEvent<{ conversations: Conversation[] }>) => {
+      setConversations((prev) => {
+        const known = new Set(prev.map((c) => c.id));
+        const added = e.detail.conversations
+          .filter((c) => !known.has(c.id))
+          .map((c) => ({ ...c, messages: [], messagesLoaded: false, olderMessagesCursor: null }));
+        if (added.length === 0) return prev;
+
+        return [...prev, ...added].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      });
+    }) as EventListener;
+
+    window.addEventListener('conversations-imported', handleImported);
+    return () => window.removeEventListener('conversations-imported', handleImported);
+  }, [isAuthenticated]);
+
+  // Live updates from other tabs and devices
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let isCancelled = false;
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session || isCancelled) return;
+
+      unsubscribe = subscribeToRemoteChanges(session.user.id, () => conversationsRef.current, (change) => {
+        setConversations((prev) => applyRemoteChange(prev, change, streamingMessageIdRef.current));
+
+        if (change.type === 'conversation-delete') {
+          setActiveConversationId((current) => (current === change.conversationId ? null : current));
+        }
+      });
+    });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe?.();
+    };
   }, [isAuthenticated]);
 
+  useEffect(() => {
+    const handleSyncStatus = ((e: CustomEvent<syncService.SyncStatus>) => {
+      setSyncStatus(e.detail);
+    }) as EventListener;
+
+    // Another device changed a conversation while this one was offline; show the merged result
+    const handleConversationSynced = ((e: CustomEvent<{ conversation: Conversation }>) => {
+      if (abortControllerRef.current) return;
+      const synced = e.detail.conversation;
+      setConversations((prev) => prev.map((c) => (c.id === synced.id ? { ...c, ...synced } : c)));
+    }) as EventListener;
+
+    window.addEventListener('sync-status-change', handleSyncStatus);
+    window.addEventListener('conversation-synced', handleConversationSynced);
+    return () => {
+      window.removeEventListener('sync-status-change', handleSyncStatus);
+      window.removeEventListener('conversation-synced', handleConversationSynced);
+    };
+  }, []);
+
+  const handleLoadMoreConversations = useCallback(async () => {
+    if (!conversationsCursor || isLoadingConversations) return;
+
+    setIsLoadingConversations(true);
+    try {
+      const page = await supabaseStorage.getConversationPage(conversationsCursor);
+      setConversations((prev) => {
+        const known = new Set(prev.map((c) => c.id));
+        return [...prev, ...page.conversations.filter((c) => !known.has(c.id))];
+      });
+      setConversationsCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more conversations:', error);
+    } finally {
+      setIsLoadingConversations(false);
+    }
+  }, [conversationsCursor, isLoadingConversations]);
+
+  // Ambil halaman pesan terbaru saat percakapan dibuka pertama kali
+  const loadConversationMessages = useCallback(async (id: string) => {
+    setLoadingMessagesFor(id);
+    try {
+      const page = await supabaseStorage.getMessagePage(id);
+      setConversations((prev) =>
+        prev.map((c) => {
+          if (c.id !== id) return c;
+
+          const loaded = { ...c, messages: page.messages, messagesLoaded: true, olderMessagesCursor: page.nextCursor };
+          syncService.cacheConversation(loaded);
+          return loaded;
+        })
+      );
+    } catch (error) {
+      console.error('Error loading messages:', error);
+      toast.error(t('failedToLoadMessages'));
+    } finally {
+      setLoadingMessagesFor((current) => (current === id ? null : current));
+    }
+  }, [t]);
+
   const handleOpenBilling = useCallback(() => {
     setSettingsTab('billing');
     setView('settings');
@@ -118,11 +320,33 @@ function App() {
   }, [isAuthenticated]);
 
   useEffect(() => {
+    if (skipAutoScrollRef.current) {
+      skipAutoScrollRef.current = false;
+      return;
+    }
+    if (jumpTargetRef.current) return;
     if (isAuthenticated && view === 'chat') {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
   }, [conversations, activeConversationId, view, isAuthenticated]);
 
+  // Scroll ke pesan hasil pencarian dan sorot sebentar
+  useEffect(() => {
+    const targetId = jumpTargetRef.current;
+    if (!targetId || view !== 'chat') return;
+
+    const element = document.getElementById(`message-${targetId}`);
+    if (!element) return;
+
+    jumpTargetRef.current = null;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    const timer = setTimeout(() => {
+      setHighlightedMessageId((current) => (current === targetId ? null : current));
+    }, 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, conversations, activeConversationId, view]);
+
   useEffect(() => {
     if (!isAuthenticated) return;
 
@@ -158,6 +382,46 @@ function App() {
     return conversations.find((c) => c.id === activeConversationId) || null;
   }, [conversations, activeConversationId]);
 
+  // Only the selected branch of the message tree is shown and sent as context
+  const activePath = useMemo(() => {
+    return activeConversation ? getActivePath(activeConversation.messages, activeConversation.activeLeafId) : [];
+  }, [activeConversation]);
+
+  // Code files per answer, kept per message object so streaming doesn't re-parse the whole thread
+  const codeFilesCacheRef = useRef(new WeakMap<Message, CodeFile[]>());
+  const earlierCodeFilesRef = useRef<CodeFile[][][]>([]);
+
+  // For each message on the path, the code files of the answers before it (for the canvas diff).
+  // Lists that didn't change keep their identity, so open canvases don't recompute their diffs.
+  const earlierCodeFiles = useMemo(() => {
+    const cache = codeFilesCacheRef.current;
+    const previous = earlierCodeFilesRef.current;
+    const result: CodeFile[][][] = [];
+    let earlier: CodeFile[][] = [];
+
+    activePath.forEach((message, index) => {
+      const reusable = previous[index];
+      const isUnchanged =
+        reusable && reusable.length === earlier.length && reusable.every((files, i) => files === earlier[i]);
+      result.push(isUnchanged ? reusable : earlier);
+
+      if (message.sender !== MessageSender.AI) return;
+      let files = cache.get(message);
+      if (!files) {
+        files = extractCodeFiles(message.text);
+        cache.set(message, files);
+      }
+      if (files.length > 0) earlier = [...earlier, files];
+    });
+
+    earlierCodeFilesRef.current = result;
+    return result;
+  }, [activePath]);
+
+  const siblingIds = useMemo(() => {
+    return activeConversation ? getSiblingIds(activeConversation.messages) : new Map<string, string[]>();
+  }, [activeConversation]);
+
   const handleNewConversation = useCallback(() => {
     setActiveConversationId(null);
     setView('chat');
@@ -166,12 +430,124 @@ function App() {
   const handleSelectConversation = useCallback((id: string) => {
     setActiveConversationId(id);
     setView('chat');
-  }, []);
+
+    const conversation = conversations.find((c) => c.id === id);
+    if (conversation?.messagesLoaded === false && loadingMessagesFor !== id) {
+      loadConversationMessages(id);
+    }
+  }, [conversations, loadingMessagesFor, loadConversationMessages]);
+
+  const handleOpenSearchResult = useCallback(async (result: SearchResult) => {
+    const { conversationId, messageId } = result;
+    setActiveConversationId(conversationId);
+    setView('chat');
+
+    const existing = conversations.find((c) => c.id === conversationId);
+    const isMessageLoaded = existing?.messages.some((m) => m.id === messageId) ?? false;
+
+    if (!existing) {
+      // Percakapan lama yang belum ada di halaman sidebar yang sudah dimuat
+      setConversations((prev) =>
+        prev.some((c) => c.id === conversationId)
+          ? prev
+          : [
+              ...prev,
+              {
+                id: conversationId,
+                title: result.conversationTitle,
+                createdAt: result.conversationCreatedAt,
+                messages: [],
+                messagesLoaded: false,
+                olderMessagesCursor: null,
+              },
+            ]
+      );
+    }
+
+    if (!isMessageLoaded) {
+      // Page backwards from the newest messages until the match is in view
+      setLoadingMessagesFor(conversationId);
+      try {
+        const known = existing?.messagesLoaded === false ? [] : existing?.messages ?? [];
+        let messages: Message[] = [...known];
+        let cursor = known.length > 0 ? existing?.olderMessagesCursor ?? null : undefined;
+
+        while (!messages.some((m) => m.id === messageId) && cursor !== null) {
+          const page = await supabaseStorage.getMessagePage(conversationId, cursor);
+          messages = [...page.messages, ...messages];
+          cursor = page.nextCursor;
+        }
+
+        setConversations((prev) =>
+          prev.map((c) => {
+            if (c.id !== conversationId) return c;
+
+            const loaded = { ...c, messages, messagesLoaded: true, olderMessagesCursor: cursor ?? null };
+            syncService.cacheConversation(loaded);
+            return loaded;
+          })
+        );
+      } catch (error) {
+        console.error('Error loading messages:', error);
+        toast.error(t('failedToLoadMessages'));
+        return;
+      } finally {
+        setLoadingMessagesFor((current) => (current === conversationId ? null : current));
+      }
+    }
+
+    // The match may sit on another branch than the one shown
+    setConversations((prev) =>
+      prev.map((c) => {
+        if (c.id !== conversationId || !c.messages.some((m) => m.id === messageId)) return c;
+        if (getActivePath(c.messages, c.activeLeafId).some((m) => m.id === messageId)) return c;
+        return { ...c, activeLeafId: getLatestLeafId(c.messages, messageId) };
+      })
+    );
+
+    jumpTargetRef.current = messageId;
+    setHighlightedMessageId(messageId);
+  }, [conversations, t]);
+
+  const handleLoadOlderMessages = useCallback(async () => {
+    const conversation = activeConversation;
+    if (!conversation || conversation.olderMessagesCursor == null || isLoadingOlderMessages) return;
+
+    const container = mainContainerRef.current;
+    const previousScrollHeight = container?.scrollHeight ?? 0;
+
+    setIsLoadingOlderMessages(true);
+    try {
+      const page = await supabaseStorage.getMessagePage(conversation.id, conversation.olderMessagesCursor);
+      skipAutoScrollRef.current = true;
+      setConversations((prev) =>
+        prev.map((c) => {
+          if (c.id !== conversation.id) return c;
+
+          const extended = { ...c, messages: [...page.messages, ...c.messages], olderMessagesCursor: page.nextCursor };
+          syncService.cacheConversation(extended);
+          return extended;
+        })
+      );
+
+      // Keep the messages that were on screen where they were
+      requestAnimationFrame(() => {
+        if (container) {
+          container.scrollTop += container.scrollHeight - previousScrollHeight;
+        }
+      });
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      toast.error(t('failedToLoadMessages'));
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  }, [activeConversation, isLoadingOlderMessages, t]);
 
   const handleDeleteConversation = useCallback(
     async (id: string) => {
       try {
-        await supabaseStorage.deleteConversation(id);
+        await syncService.deleteConversation(id);
         const updatedConversations = conversations.filter((c) => c.id !== id);
         setConversations(updatedConversations);
         if (activeConversationId === id) {
@@ -184,10 +560,81 @@ function App() {
     [conversations, activeConversationId]
   );
 
+  // Rename, pin, archive or file a conversation; saved like any other change
+  const handleUpdateConversation = useCallback(
+    (id: string, changes: ConversationChanges) => {
+      setConversations((prev) =>
+        prev.map((c) => {
+          if (c.id !== id) return c;
+
+          const keys = Object.keys(changes) as (keyof ConversationChanges)[];
+          if (keys.every((key) => (c[key] ?? null) === (changes[key] ?? null))) return c;
+
+          const updated = { ...c, ...changes };
+          // The reply being generated is saved when it completes
+          const toSave = withoutFailedMessages({
+            ...updated,
+            messages: updated.messages.filter((m) => m.id !== streamingMessageIdRef.current),
+          });
+          syncService.saveConversation(toSave).catch((err) => {
+            console.error('Error saving conversation:', err);
+            toast.error(t('failedToSaveConversation'));
+          });
+          return updated;
+        })
+      );
+    },
+    [t]
+  );
+
+  const handleCreateFolder = useCallback(
+    async (name: string) => {
+      try {
+        const folder = await folderService.createFolder(name);
+        setFolders((prev) => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (error) {
+        toast.error(t('folderActionFailed'));
+      }
+    },
+    [t]
+  );
+
+  const handleRenameFolder = useCallback(
+    async (id: string, name: string) => {
+      try {
+        await folderService.renameFolder(id, name);
+        setFolders((prev) =>
+          prev.map((f) => (f.id === id ? { ...f, name } : f)).sort((a, b) => a.name.localeCompare(b.name))
+        );
+      } catch (error) {
+        toast.error(t('folderActionFailed'));
+      }
+    },
+    [t]
+  );
+
+  const handleDeleteFolder = useCallback(
+    async (id: string) => {
+      // Move the conversations out first, so no queued save still points at the deleted folder
+      conversations
+        .filter((c) => c.folderId === id)
+        .forEach((c) => handleUpdateConversation(c.id, { folderId: null }));
+
+      try {
+        await folderService.deleteFolder(id);
+        setFolders((prev) => prev.filter((f) => f.id !== id));
+      } catch (error) {
+        toast.error(t('folderActionFailed'));
+      }
+    },
+    [conversations, handleUpdateConversation, t]
+  );
+
   const handleDeleteAllConversations = useCallback(async () => {
     try {
-      await supabaseStorage.deleteAllConversations();
+      await syncService.deleteAllConversations();
       setConversations([]);
+      setConversationsCursor(null);
       setActiveConversationId(null);
       setView('chat');
     } catch (error) {
@@ -197,9 +644,16 @@ function App() {
 
   const handleLogout = useCallback(async () => {
     try {
+      cancelActiveRequests();
+      const cleared = await syncService.clearLocalData();
+      if (!cleared) {
+        toast.error(t('unsyncedChangesKept'), { duration: 8000 });
+      }
       await supabase.auth.signOut();
       setIsAuthenticated(false);
       setConversations([]);
+      setConversationsCursor(null);
+      setFolders([]);
       setActiveConversationId(null);
       setView('chat');
       setSidebarOpen(false);
@@ -214,32 +668,136 @@ function App() {
     } catch (error) {
       console.error('Error logging out:', error);
     }
+  }, [t]);
+
+  // Tulis teks parsial ke pesan AI yang sedang di-stream
+  const updateStreamingText = useCallback((conversationId: string, messageId: string, text: string) => {
+    setConversations((prev) =>
+      prev.map((c) =>
+        c.id === conversationId
+          ? { ...c, messages: c.messages.map((m) => (m.id === messageId ? { ...m, text, status: 'streaming' } : m)) }
+          : c
+      )
+    );
   }, []);
 
-  const handleSendMessage = useCallback(
-    async (text: string) => {
-      // Check rate limit first
+  /**
+   * Run one AI turn into an existing placeholder message, then persist the conversation.
+   * Failed turns stay visible with a Retry action but are neither saved nor counted against the quota.
+   */
+  const generateAiResponse = useCallback(
+    async (conversationId: string, prompt: string, history: Message[], aiMessageId: string) => {
+      setIsLoading(true);
+      setStreamingMessageId(aiMessageId);
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const startedAt = performance.now();
+
+      let finalFields: Partial<Message>;
+
       try {
-        const limitInfo = await checkRateLimit();
-        setRateLimitInfo(limitInfo);
+        const { text: aiResponseText, cancelled, provider, model, usage } = await streamMessage(
+          {
+            message: prompt,
+            conversationId,
+            history,
+            signal: abortController.signal,
+            idempotencyKey: aiMessageId,
+            onRetry: ({ retry, maxRetries }) => setRetryProgress({ messageId: aiMessageId, retry, maxRetries }),
+          },
+          (_chunk, fullText) => {
+            setRetryProgress(null);
+            updateStreamingText(conversationId, aiMessageId, fullText);
+          }
+        );
+
+        finalFields = {
+          text: aiResponseText,
+          cancelled,
+          error: undefined,
+          status: cancelled ? 'cancelled' : 'complete',
+          latencyMs: Math.round(performance.now() - startedAt),
+          provider,
+          model,
+          usage,
+        };
+
+        // Cancelled requests don't count against the rate limit
+        if (!cancelled) {
+          try {
+            await incrementMessageCount();
 
-        if (limitInfo.isLimited) {
-          // Tidak bisa kirim pesan, sudah kena limit
-          console.log('Rate limit reached. Please wait.');
-          return;
+            // Update rate limit info
+            const updatedLimitInfo = await getRateLimitStatus();
+            setRateLimitInfo(updatedLimitInfo);
+          } catch (error) {
+            console.error('Error updating message count:', error);
+          }
         }
       } catch (error) {
-        console.error('Error checking rate limit:', error);
-        return;
+        console.error('Error getting AI response:', error);
+        const aiError = toAIRequestError(error);
+        finalFields = {
+          text: aiError.partialText,
+          cancelled: false,
+          error: { kind: aiError.kind, message: aiError.message, status: aiError.status },
+          status: 'error',
+          latencyMs: Math.round(performance.now() - startedAt),
+        };
+      } finally {
+        abortControllerRef.current = null;
+        setRetryProgress(null);
+        setStreamingMessageId(null);
+        setIsLoading(false);
       }
 
-      setIsLoading(true);
+      setConversations((prev) =>
+        prev.map((c) => {
+          if (c.id !== conversationId) return c;
 
-      const userMessage: Message = {
-        id: crypto.randomUUID(),
-        text,
-        sender: MessageSender.User,
-      };
+          const finalMessages = c.messages.map((m) => (m.id === aiMessageId ? { ...m, ...finalFields } : m));
+          const finalConversation = { ...c, messages: finalMessages };
+
+          // Save locally first and sync in the background, without failed turns
+          syncService
+            .saveConversation(withoutFailedMessages(finalConversation))
+            .catch((err) => {
+              console.error('Error saving conversation:', err);
+              toast.error(t('failedToSaveConversation'));
+            });
+
+          return finalConversation;
+        })
+      );
+    },
+    [updateStreamingText, t]
+  );
+
+  // Cek rate limit sebelum request baru; return false kalau tidak boleh kirim
+  const ensureWithinRateLimit = useCallback(async (): Promise<boolean> => {
+    try {
+      const limitInfo = await checkRateLimit();
+      setRateLimitInfo(limitInfo);
+
+      if (limitInfo.isLimited) {
+        // Tidak bisa kirim pesan, sudah kena limit
+        console.log('Rate limit reached. Please wait.');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Error checking rate limit:', error);
+      return false;
+    }
+  }, []);
+
+  const handleSendMessage = useCallback(
+    async (text: string) => {
+      // One reply at a time; e.g. a canvas can send edits while an answer is still streaming
+      if (isLoading) return;
+
+      // Check rate limit first
+      if (!(await ensureWithinRateLimit())) return;
 
       let conversationId = activeConversationId;
       let currentConversation = activeConversation;
@@ -256,146 +814,173 @@ function App() {
         setActiveConversationId(newConv.id);
       }
 
-      const aiLoadingMessage: Message = {
+      // Reply to the end of the branch that is shown
+      const history = getActivePath(currentConversation.messages, currentConversation.activeLeafId);
+
+      const userMessage: Message = {
         id: crypto.randomUUID(),
-        text: '...',
-        sender: MessageSender.AI,
+        text,
+        sender: MessageSender.User,
+        parentId: history.length > 0 ? history[history.length - 1].id : null,
+        createdAt: new Date().toISOString(),
+        status: 'complete',
       };
 
+      const aiLoadingMessage = createPendingAiMessage(userMessage.id);
+
       const updatedMessages = [...currentConversation.messages, userMessage, aiLoadingMessage];
+      const activeLeafId = aiLoadingMessage.id;
 
       setConversations((prev) => {
         const existing = prev.find((c) => c.id === conversationId);
         if (existing) {
-          return prev.map((c) => (c.id === conversationId ? { ...c, messages: updatedMessages } : c));
+          return prev.map((c) => (c.id === conversationId ? { ...c, messages: updatedMessages, activeLeafId } : c));
         } else {
-          return [{ ...currentConversation!, messages: updatedMessages }, ...prev];
+          return [{ ...currentConversation!, messages: updatedMessages, activeLeafId }, ...prev];
         }
       });
 
-      try {
-        const aiResponseText = await sendMessageToWebhook(text);
-
-        // Increment message count after successful response
-        await incrementMessageCount();
-
-        // Update rate limit info
-        const updatedLimitInfo = await getRateLimitStatus();
-        setRateLimitInfo(updatedLimitInfo);
-
-        setConversations((prev) => {
-          const finalConvs = prev.map((c) => {
-            if (c.id === conversationId) {
-              const finalMessages = c.messages.map((m) =>
-                m.id === aiLoadingMessage.id ? { ...m, text: aiResponseText } : m
-              );
-              const finalConversation = { ...c, messages: finalMessages };
-
-              // Save to Supabase
-              supabaseStorage.saveConversation(finalConversation).catch(err => {
-                console.error('Error saving conversation:', err);
-              });
-
-              return finalConversation;
-            }
-            return c;
-          });
-          return finalConvs;
-        });
-      } catch (error) {
-        console.error('Error sending message:', error);
-      }
-
-      setIsLoading(false);
+      await generateAiResponse(conversationId!, text, history, aiLoadingMessage.id);
     },
-    [activeConversation, activeConversationId]
+    [activeConversation, activeConversationId, isLoading, ensureWithinRateLimit, generateAiResponse]
   );
 
   const handleEditMessage = useCallback(async (messageId: string, newText: string) => {
+    if (isLoading) return;
     // Check rate limit before editing
-    try {
-      const limitInfo = await checkRateLimit();
-      setRateLimitInfo(limitInfo);
-
-      if (limitInfo.isLimited) {
-        console.log('Rate limit reached. Cannot edit message.');
-        return;
-      }
-    } catch (error) {
-      console.error('Error checking rate limit:', error);
-      return;
-    }
+    if (!(await ensureWithinRateLimit())) return;
 
     const conversationId = activeConversationId;
     if (!conversationId || !activeConversation) return;
 
-    const messageIndex = activeConversation.messages.findIndex(m => m.id === messageId);
+    const messageIndex = activePath.findIndex(m => m.id === messageId);
     if (messageIndex === -1) {
       console.error("Could not find the message to edit.");
       return;
     }
 
-    const truncatedMessages = activeConversation.messages.slice(0, messageIndex);
+    // The edit becomes a new branch next to the original; nothing after it is lost
+    const history = activePath.slice(0, messageIndex);
 
     const editedUserMessage: Message = {
-      id: messageId,
+      id: crypto.randomUUID(),
       text: newText,
       sender: MessageSender.User,
+      parentId: activePath[messageIndex].parentId ?? null,
+      createdAt: new Date().toISOString(),
+      status: 'complete',
+      attachments: activePath[messageIndex].attachments,
     };
 
-    const aiLoadingMessage: Message = {
-      id: crypto.randomUUID(),
-      text: '...',
-      sender: MessageSender.AI,
-    };
-
-    const updatedMessages = [...truncatedMessages, editedUserMessage, aiLoadingMessage];
-    const previousConversations = conversations;
+    const aiLoadingMessage = createPendingAiMessage(editedUserMessage.id);
 
     setConversations(prev =>
       prev.map(conv =>
-        conv.id === conversationId ? { ...conv, messages: updatedMessages } : conv
+        conv.id === conversationId
+          ? { ...conv, messages: [...conv.messages, editedUserMessage, aiLoadingMessage], activeLeafId: aiLoadingMessage.id }
+          : conv
       )
     );
-    setIsLoading(true);
 
-    try {
-      const aiResponseText = await sendMessageToWebhook(newText);
+    await generateAiResponse(conversationId, newText, history, aiLoadingMessage.id);
+  }, [activeConversationId, activeConversation, activePath, isLoading, ensureWithinRateLimit, generateAiResponse]);
 
-      // Increment message count after successful edit response
-      await incrementMessageCount();
+  // Ulangi turn AI yang gagal, di tempat yang sama
+  const handleRetryMessage = useCallback(async (messageId: string) => {
+    if (isLoading) return;
+    if (!(await ensureWithinRateLimit())) return;
 
-      // Update rate limit info
-      const updatedLimitInfo = await getRateLimitStatus();
-      setRateLimitInfo(updatedLimitInfo);
+    const conversationId = activeConversationId;
+    if (!conversationId || !activeConversation) return;
 
-      setConversations(prev => {
-        const finalConvs = prev.map(conv => {
-          if (conv.id === conversationId) {
-            const finalMessages = conv.messages.map(m =>
-              m.id === aiLoadingMessage.id ? { ...m, text: aiResponseText } : m
-            );
-            const finalConversation = { ...conv, messages: finalMessages };
+    const messageIndex = activePath.findIndex(m => m.id === messageId);
+    const promptMessage = activePath[messageIndex - 1];
+    if (messageIndex === -1 || !promptMessage || promptMessage.sender !== MessageSender.User) {
+      console.error("Could not find the prompt to retry.");
+      return;
+    }
 
-            // Save to Supabase
-            supabaseStorage.saveConversation(finalConversation).catch(err => {
-              console.error('Error saving conversation:', err);
-            });
+    const aiLoadingMessage = createPendingAiMessage(promptMessage.id);
 
-            return finalConversation;
-          }
-          return conv;
-        });
-        return finalConvs;
-      });
+    setConversations(prev =>
+      prev.map(conv =>
+        conv.id === conversationId
+          ? {
+              ...conv,
+              messages: conv.messages.map(m => (m.id === messageId ? aiLoadingMessage : m)),
+              activeLeafId: conv.activeLeafId === messageId ? aiLoadingMessage.id : conv.activeLeafId,
+            }
+          : conv
+      )
+    );
 
-    } catch (error) {
-      console.error("Failed to get AI response after editing:", error);
-      setConversations(previousConversations);
-    } finally {
-      setIsLoading(false);
+    await generateAiResponse(
+      conversationId,
+      promptMessage.text,
+      activePath.slice(0, messageIndex - 1),
+      aiLoadingMessage.id
+    );
+  }, [activeConversationId, activeConversation, activePath, isLoading, ensureWithinRateLimit, generateAiResponse]);
+
+  // Buat jawaban baru untuk prompt yang sama; jawaban lama tetap bisa dilihat lewat navigasi versi
+  const handleRegenerateMessage = useCallback(async (messageId: string) => {
+    if (isLoading) return;
+    if (!(await ensureWithinRateLimit())) return;
+
+    const conversationId = activeConversationId;
+    if (!conversationId || !activeConversation) return;
+
+    const messageIndex = activePath.findIndex(m => m.id === messageId);
+    const promptMessage = activePath[messageIndex - 1];
+    if (messageIndex === -1 || !promptMessage || promptMessage.sender !== MessageSender.User) {
+      console.error("Could not find the prompt to regenerate.");
+      return;
     }
-  }, [activeConversationId, activeConversation, conversations]);
+
+    const aiLoadingMessage = createPendingAiMessage(promptMessage.id);
+
+    setConversations(prev =>
+      prev.map(conv =>
+        conv.id === conversationId
+          ? { ...conv, messages: [...conv.messages, aiLoadingMessage], activeLeafId: aiLoadingMessage.id }
+          : conv
+      )
+    );
+
+    await generateAiResponse(
+      conversationId,
+      promptMessage.text,
+      activePath.slice(0, messageIndex - 1),
+      aiLoadingMessage.id
+    );
+  }, [activeConversationId, activeConversation, activePath, isLoading, ensureWithinRateLimit, generateAiResponse]);
+
+  // Pindah ke versi lain dari pesan yang sama (hasil edit atau regenerate), lalu ke balasan terbarunya.
+  // The version shown is also the one sent as context from then on.
+  const handleSwitchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    if (!activeConversation || isLoading) return;
+
+    const siblings = siblingIds.get(messageId) || [];
+    const targetId = siblings[siblings.indexOf(messageId) + direction];
+    if (!targetId) return;
+
+    const updated = {
+      ...activeConversation,
+      activeLeafId: getLatestLeafId(activeConversation.messages, targetId),
+    };
+
+    skipAutoScrollRef.current = true;
+    setConversations(prev => prev.map(conv => (conv.id === updated.id ? updated : conv)));
+
+    syncService.saveConversation(withoutFailedMessages(updated)).catch((err) => {
+      console.error('Error saving conversation:', err);
+      toast.error(t('failedToSaveConversation'));
+    });
+  }, [activeConversation, isLoading, siblingIds, t]);
+
+  const handleStopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const handleResendMessage = useCallback(
     (text: string) => {
@@ -499,6 +1084,16 @@ function App() {
         onSelectConversation={handleSelectConversation}
         onNewConversation={handleNewConversation}
         onDeleteConversation={handleDeleteConversation}
+        onUpdateConversation={handleUpdateConversation}
+        folders={folders}
+        onCreateFolder={handleCreateFolder}
+        onRenameFolder={handleRenameFolder}
+        onDeleteFolder={handleDeleteFolder}
+        onOpenSearchResult={handleOpenSearchResult}
+        hasMoreConversations={conversationsCursor !== null}
+        isLoadingMoreConversations={isLoadingConversations}
+        onLoadMoreConversations={handleLoadMoreConversations}
+        syncStatus={syncStatus}
         onOpenSettings={() => {
           setView('settings');
         }}
@@ -509,14 +1104,32 @@ function App() {
       />
 
       <div className="flex-1 flex flex-col bg-gray-900 text-white overflow-hidden" style={mainContentStyle}>
-        <header className="md:hidden flex items-center justify-between p-4 bg-gray-900 text-white border-b border-gray-700/50 flex-shrink-0">
-          <button onClick={() => setSidebarOpen(true)} className="p-2 -ml-2 text-gray-300 hover:text-white">
+        {/* Di desktop header hanya tampil untuk percakapan yang sedang dibuka */}
+        <header
+          className={`${view === 'chat' && activeConversation ? 'flex' : 'flex md:hidden'} items-center justify-between p-4 md:px-6 md:py-3 bg-gray-900 text-white border-b border-gray-700/50 flex-shrink-0`}
+        >
+          <button onClick={() => setSidebarOpen(true)} className="md:hidden p-2 -ml-2 text-gray-300 hover:text-white">
             <HiOutlineMenuAlt3 />
           </button>
-          <h1 className="text-lg font-semibold truncate">{activeConversation?.title || t('newChat')}</h1>
-          <div className="w-6"></div>
+          <h1 className="text-lg md:text-base font-semibold truncate">{activeConversation?.title || t('newChat')}</h1>
+          {view === 'chat' && activeConversation ? (
+            <button
+              onClick={() => setIsExportOpen(true)}
+              className="p-2 -mr-2 rounded-md text-gray-300 hover:text-white hover:bg-gray-800 transition-colors"
+              title={t('exportConversation')}
+            >
+              <FiDownload />
+            </button>
+          ) : (
+            <div className="w-6"></div>
+          )}
         </header>
 
+        <ExportConversationModal
+          conversation={isExportOpen ? activeConversation : null}
+          onClose={() => setIsExportOpen(false)}
+        />
+
         {view === 'settings' ? (
           <SettingsLayout
             onClose={() => setView('chat')}
@@ -528,18 +1141,52 @@ function App() {
           <>
             <main ref={mainContainerRef} className="flex-1 overflow-y-auto scrollbar-hide p-4 md:p-6 lg:p-8 relative">
               <div className="max-w-4xl mx-auto h-full flex flex-col">
-                {activeConversation && activeConversation.messages.length > 0 ? (
+                {activeConversation && loadingMessagesFor === activeConversation.id && activeConversation.messages.length === 0 ? (
+                  <div className="flex-1 flex items-center justify-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-500 border-t-transparent"></div>
+                  </div>
+                ) : activeConversation && activeConversation.messages.length > 0 ? (
                   <div className="flex flex-col gap-6">
-                    {activeConversation.messages.map((msg, index) => (
-                      <ChatMessage
-                        key={msg.id}
-                        message={msg}
-                        isLoading={isLoading && msg.sender === MessageSender.AI && msg.text === '...'}
-                        onResendMessage={handleResendMessage}
-                        onEditMessage={handleEditMessage}
-                        shouldHideButtons={activeConversation.messages.length - index > 10}
-                      />
-                    ))}
+                    {activeConversation.olderMessagesCursor != null && (
+                      <button
+                        onClick={handleLoadOlderMessages}
+                        disabled={isLoadingOlderMessages}
+                        className="self-center flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 hover:bg-gray-700 disabled:opacity-60 text-gray-300 text-xs font-medium transition-colors"
+                      >
+                        {isLoadingOlderMessages && (
+                          <div className="animate-spin rounded-full h-3 w-3 border-2 border-gray-300 border-t-transparent" />
+                        )}
+                        {t('loadEarlierMessages')}
+                      </button>
+                    )}
+                    {activePath.map((msg, index) => {
+                      const siblings = siblingIds.get(msg.id) || [msg.id];
+                      return (
+                        <div
+                          key={msg.id}
+                          id={`message-${msg.id}`}
+                          className={`scroll-mt-24 rounded-lg transition-shadow duration-500 ${
+                            msg.id === highlightedMessageId ? 'ring-2 ring-yellow-400/60 ring-offset-4 ring-offset-gray-900' : ''
+                          }`}
+                        >
+                          <ChatMessage
+                            message={msg}
+                            isLoading={isLoading && msg.sender === MessageSender.AI && msg.text === '...'}
+                            isStreaming={msg.id === streamingMessageId && msg.text !== '...'}
+                            isGenerating={isLoading}
+                            retryProgress={retryProgress?.messageId === msg.id ? retryProgress : null}
+                            onResendMessage={handleResendMessage}
+                            onEditMessage={handleEditMessage}
+                            onRetryMessage={handleRetryMessage}
+                            onRegenerateMessage={handleRegenerateMessage}
+                            branch={siblings.length > 1 ? { index: siblings.indexOf(msg.id), total: siblings.length } : null}
+                            onSwitchBranch={handleSwitchBranch}
+                            shouldHideButtons={activePath.length - index > 10}
+                            earlierCodeFiles={earlierCodeFiles[index]}
+                          />
+                        </div>
+                      );
+                    })}
                     <div ref={messagesEndRef} />
                   </div>
                 ) : (
@@ -572,7 +1219,9 @@ function App() {
                 />
                 <ChatInput
                   onSendMessage={handleSendMessage}
-                  isLoading={isLoading || rateLimitInfo.isLimited}
+                  isLoading={isLoading || rateLimitInfo.isLimited || (!!activeConversationId && loadingMessagesFor === activeConversationId)}
+                  isGenerating={isLoading}
+                  onStop={handleStopGeneration}
                 />
               </div>
             </div>
@@ -1,10 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useLocalization } from '../contexts/LocalizationContext';
-import { FiX, FiMaximize2, FiCode } from 'react-icons/fi';
+import { FiX, FiMaximize2, FiCode, FiSquare } from 'react-icons/fi';
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
   isLoading: boolean;
+  isGenerating?: boolean;
+  onStop?: () => void;
 }
 
 interface CodeBlock {
@@ -14,7 +16,7 @@ interface CodeBlock {
   lineCount: number;
 }
 
-export const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
+export const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, isGenerating = false, onStop }) => {
   const [text, setText] = useState('');
   const [codeBlocks, setCodeBlocks] = useState<CodeBlock[]>([]);
   const [expandedBlock, setExpandedBlock] = useState<string | null>(null);
@@ -332,15 +334,27 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }
             disabled={isLoading}
             style={{ minHeight: '48px', maxHeight: '160px' }}
           />
-          <button
-            type="submit"
-            disabled={isLoading || (!text.trim() && codeBlocks.length === 0)}
-            className="absolute right-3 top-6 -translate-y-1/2 p-2 rounded-full bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5 text-white">
-              <path d="M3.105 3.105a.75.75 0 01.956-.042l13.5 8.25a.75.75 0 010 1.372l-13.5 8.25a.75.75 0 01-1.11-.849L4.852 12.5H9.25a.75.75 0 000-1.5H4.852l-1.9-4.34a.75.75 0 01.153-.956z" />
-            </svg>
-          </button>
+          {isGenerating && onStop ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="absolute right-3 top-6 -translate-y-1/2 p-2 rounded-full bg-gray-200 hover:bg-white transition-colors"
+              title={t('stopGenerating')}
+              aria-label={t('stopGenerating')}
+            >
+              <FiSquare className="w-5 h-5 text-gray-900 fill-current" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isLoading || (!text.trim() && codeBlocks.length === 0)}
+              className="absolute right-3 top-6 -translate-y-1/2 p-2 rounded-full bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5 text-white">
+                <path d="M3.105 3.105a.75.75 0 01.956-.042l13.5 8.25a.75.75 0 010 1.372l-13.5 8.25a.75.75 0 01-1.11-.849L4.852 12.5H9.25a.75.75 0 000-1.5H4.852l-1.9-4.34a.75.75 0 01.153-.956z" />
+              </svg>
+            </button>
+          )}
         </div>
       </form>
 
@@ -1,23 +1,30 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { Message, MessageSender } from '../../types';
-import { FiUser, FiRefreshCw, FiEdit3, FiCheck, FiX, FiMaximize2, FiCode } from 'react-icons/fi';
-import { CodeBlock } from './CodeBlock';
-import { Table } from './Table';
+import { Message, MessageError, MessageSender } from '../../types';
+import { FiUser, FiRefreshCw, FiEdit3, FiCheck, FiX, FiMaximize2, FiCode, FiSlash, FiAlertTriangle, FiChevronLeft, FiChevronRight, FiPaperclip } from 'react-icons/fi';
+import { MarkdownContent } from './MarkdownContent';
 import { VibeCodingCanvas } from './VibeCodingCanvas';
 import { ReactPreviewCanvas } from './ReactPreviewCanvas';
+import { CodeFile, extractCodeFiles } from '../services/codeFiles';
 import { useLocalization } from '../contexts/LocalizationContext';
 
 interface ChatMessageProps {
   message: Message;
   isLoading: boolean;
+  isStreaming?: boolean;
+  // Some reply in the conversation is being generated
+  isGenerating?: boolean;
+  // Set while the request for this message is being retried automatically
+  retryProgress?: { retry: number; maxRetries: number } | null;
   onResendMessage: (message: string) => void;
   onEditMessage?: (messageId: string, newText: string) => void;
+  onRetryMessage?: (messageId: string) => void;
+  onRegenerateMessage?: (messageId: string) => void;
+  // Position among the versions of this message (edits of a prompt, regenerated answers); null when there is only one
+  branch?: { index: number; total: number } | null;
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
   shouldHideButtons?: boolean;
-}
-
-interface CodeFile {
-  language: string;
-  content: string;
+  // Code files of each earlier answer on the same branch, oldest first; the canvas diffs against them
+  earlierCodeFiles?: CodeFile[][];
 }
 
 interface ParsedCodeBlock {
@@ -38,217 +45,53 @@ const EMIT_CANVAS_CHANGE = (id: string | null, width: number = 0) => {
   window.dispatchEvent(new CustomEvent('canvas-state-change', { detail: { isOpen: !!id, width, messageId: id } }));
 };
 
-// ✅ Helper function to get random loading message from localization
-const getRandomLoadingMessage = (loadingMessages: string[]): string => {
-  if (!loadingMessages || loadingMessages.length === 0) {
-    return "Loading...";
-  }
-  return loadingMessages[Math.floor(Math.random() * loadingMessages.length)];
+const ERROR_MESSAGE_KEYS: Record<MessageError['kind'], string> = {
+  network: 'aiErrorNetwork',
+  cors: 'aiErrorCors',
+  http: 'aiErrorHttp',
+  empty: 'aiErrorEmpty',
+  format: 'aiErrorFormat',
+  timeout: 'aiErrorTimeout',
+  unknown: 'aiErrorUnknown',
 };
 
-
-const parseAiResponse = (text: string) => {
-  if (!text) return [];
-
-  const components: { type: 'text' | 'code' | 'table'; content: any }[] = [];
-  const blocks: { type: 'code' | 'table' | 'text'; start: number; end: number; data: any }[] = [];
-  
-  // ✅ IMPROVED: More flexible code block parsing
-  let pos = 0;
-  while (pos < text.length) {
-    const codeStart = text.indexOf('```', pos);
-    if (codeStart === -1) break;
-    
-    const langStart = codeStart + 3;
-    let langEnd = text.indexOf('\n', langStart);
-    
-    // Handle case: ``` with no newline after it (at end of text)
-    if (langEnd === -1) {
-      pos = codeStart + 3;
-      continue;
-    }
-    
-    const language = text.slice(langStart, langEnd).trim();
-    const contentStart = langEnd + 1;
-    
-    // Find closing ``` - must be on own line
-    let codeEnd = -1;
-    let searchPos = contentStart;
-    
-    while (searchPos < text.length) {
-      const potentialEnd = text.indexOf('```', searchPos);
-      if (potentialEnd === -1) break;
-      
-      // Check if ``` is at start of line (after \n or at beginning)
-      if (potentialEnd === 0 || text[potentialEnd - 1] === '\n') {
-        codeEnd = potentialEnd;
-        break;
-      }
-      
-      searchPos = potentialEnd + 3;
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 31536000],
+  ['month', 2592000],
+  ['week', 604800],
+  ['day', 86400],
+  ['hour', 3600],
+  ['minute', 60],
+];
+
+// "5 minutes ago" in the UI language; null under a minute
+const formatRelativeTime = (isoDate: string, locale: string, now: number): string | null => {
+  const seconds = Math.round((new Date(isoDate).getTime() - now) / 1000);
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+
+  for (const [unit, unitSeconds] of RELATIVE_TIME_UNITS) {
+    if (Math.abs(seconds) >= unitSeconds) {
+      return formatter.format(Math.round(seconds / unitSeconds), unit);
     }
-    
-    if (codeEnd === -1) break;
-    
-    const code = text.slice(contentStart, codeEnd).trim();
-    
-    blocks.push({
-      type: 'code',
-      start: codeStart,
-      end: codeEnd + 3,
-      data: { language: language || 'text', code }
-    });
-    
-    pos = codeEnd + 3;
-  }
-  
-  // Step 2: Extract table blocks (hanya di area yang tidak termasuk code)
-  const tableRegex = /(\|[^\n]+\|\n\|[\s:|-]+\|\n(?:\|[^\n]+\|\n?)*)/g;
-  let tableMatch;
-  
-  while ((tableMatch = tableRegex.exec(text)) !== null) {
-    const tableStart = tableMatch.index;
-    const tableEnd = tableMatch.index + tableMatch[0].length;
-    
-    // Cek apakah table berada di dalam code block
-    const isInsideCode = blocks.some(b => b.type === 'code' && tableStart >= b.start && tableEnd <= b.end);
-    
-    if (!isInsideCode) {
-      try {
-        const lines = tableMatch[1].trim().split('\n').filter(line => line.trim());
-        if (lines.length >= 2) {
-          const headers = lines[0].split('|').map(h => h.trim()).filter(Boolean);
-          const rows = lines.slice(2).map(row =>
-            row.split('|').map(c => c.trim()).filter(Boolean)
-          ).filter(row => row.length > 0);
-          
-          if (headers.length > 0 && rows.length > 0) {
-            blocks.push({
-              type: 'table',
-              start: tableStart,
-              end: tableEnd,
-              data: { headers, rows }
-            });
-          }
-        }
-      } catch (error) {
-        console.error('Error parsing table:', error);
-      }
-    }
-  }
-  
-  // Step 3: Sort blocks by position
-  blocks.sort((a, b) => a.start - b.start);
-  
-  // Step 4: Extract text between blocks
-  let currentPos = 0;
-  
-  for (const block of blocks) {
-    // Add text before block
-    if (currentPos < block.start) {
-      const textContent = text.slice(currentPos, block.start).trim();
-      if (textContent) {
-        const cleanedText = textContent
-          .replace(/^(#+)\s/gm, '')
-          .replace(/\*\*/g, '')
-          .replace(/`/g, '')
-          .replace(/^\s*[-*]\s/gm, '• ');
-        if (cleanedText.trim()) {
-          components.push({ type: 'text', content: cleanedText });
-        }
-      }
-    }
-    
-    // Add block
-    components.push({ type: block.type, content: block.data });
-    currentPos = block.end;
   }
-  
-  // Add remaining text
-  if (currentPos < text.length) {
-    const textContent = text.slice(currentPos).trim();
-    if (textContent) {
-      const cleanedText = textContent
-        .replace(/^(#+)\s/gm, '')
-        .replace(/\*\*/g, '')
-        .replace(/`/g, '')
-        .replace(/^\s*[-*]\s/gm, '• ');
-      if (cleanedText.trim()) {
-        components.push({ type: 'text', content: cleanedText });
-      }
-    }
-  }
-  
-  // Fallback jika tidak ada komponen
-  if (components.length === 0 && text.trim()) {
-    const cleanedText = text
-      .replace(/^(#+)\s/gm, '')
-      .replace(/\*\*/g, '')
-      .replace(/`/g, '')
-      .replace(/^\s*[-*]\s/gm, '• ');
-    if (cleanedText.trim()) {
-      components.push({ type: 'text', content: cleanedText });
-    }
-  }
-  
-  return components;
+  return null;
 };
 
-const extractCodeFiles = (text: string): CodeFile[] => {
-  const files: CodeFile[] = [];
-  let pos = 0;
-
-  while (pos < text.length) {
-    const codeStart = text.indexOf('```', pos);
-    if (codeStart === -1) break;
-    
-    const langStart = codeStart + 3;
-    let langEnd = text.indexOf('\n', langStart);
-    
-    if (langEnd === -1) {
-      pos = codeStart + 3;
-      continue;
-    }
-    
-    const language = text.slice(langStart, langEnd).trim();
-    const contentStart = langEnd + 1;
-    
-    let codeEnd = -1;
-    let searchPos = contentStart;
-    
-    while (searchPos < text.length) {
-      const potentialEnd = text.indexOf('```', searchPos);
-      if (potentialEnd === -1) break;
-      
-      if (potentialEnd === 0 || text[potentialEnd - 1] === '\n') {
-        codeEnd = potentialEnd;
-        break;
-      }
-      
-      searchPos = potentialEnd + 3;
-    }
-    
-    if (codeEnd === -1) break;
-    
-    const content = text.slice(contentStart, codeEnd).trim();
-
-    const canvasLanguages = [
-      'html', 'css', 'javascript', 'js', 'typescript', 'ts',
-      'jsx', 'tsx', 'react', 'typescript-react',
-      'python', 'cpp', 'c', 'java', 'php', 'ruby', 'go', 'rust',
-      'csharp', 'swift', 'kotlin', 'c++'
-    ];
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
-    if (canvasLanguages.includes(language.toLowerCase())) {
-      files.push({ language, content });
-    }
-    
-    pos = codeEnd + 3;
+// ✅ Helper function to get random loading message from localization
+const getRandomLoadingMessage = (loadingMessages: string[]): string => {
+  if (!loadingMessages || loadingMessages.length === 0) {
+    return "Loading...";
   }
-
-  return files;
+  return loadingMessages[Math.floor(Math.random() * loadingMessages.length)];
 };
 
+
 const isReactCode = (files: CodeFile[]): boolean => {
   return files.some(f => {
     const lang = f.language.toLowerCase();
@@ -313,9 +156,17 @@ const extractUserCodeBlocks = (text: string): ParsedCodeBlock[] => {
 export const ChatMessage: React.FC<ChatMessageProps> = ({
   message,
   isLoading,
+  isStreaming = false,
+  isGenerating = false,
+  retryProgress = null,
   onResendMessage,
   onEditMessage,
+  onRetryMessage,
+  onRegenerateMessage,
+  branch = null,
+  onSwitchBranch,
   shouldHideButtons = false,
+  earlierCodeFiles = [],
 }) => {
   const [isEditingLocal, setIsEditingLocal] = useState(false);
   const [editText, setEditText] = useState(message.text);
@@ -328,7 +179,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
   const [expandedUserBlock, setExpandedUserBlock] = useState<ParsedCodeBlock | null>(null);
   
   // ✅ State untuk loading message
-  const { t } = useLocalization();
+  const { t, locale } = useLocalization();
   const [loadingMessage, setLoadingMessage] = useState<string>('Loading...');
 
   // ✅ FIXED: Update loading message setiap 3 detik saat loading
@@ -425,9 +276,9 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
     }
   }, [message.id]);
 
-  // ✅ FIXED: Auto-open canvas hanya untuk AI messages dengan code
+  // ✅ FIXED: Auto-open canvas hanya untuk AI messages dengan code (tunggu stream selesai)
   useEffect(() => {
-    if (hasCanvasContent && !isLoading && message.sender === MessageSender.AI && !__globalActiveCanvasId) {
+    if (hasCanvasContent && !isLoading && !isStreaming && message.sender === MessageSender.AI && !__globalActiveCanvasId) {
       setShowCanvas(false);
       const timer = setTimeout(() => {
         setShowCanvas(true);
@@ -435,7 +286,15 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
       }, 50);
       return () => clearTimeout(timer);
     }
-  }, [message.id, hasCanvasContent, isLoading, message.sender, canvasWidth]);
+  }, [message.id, hasCanvasContent, isLoading, isStreaming, message.sender, canvasWidth]);
+
+  // ✅ Perbarui waktu relatif ("2 menit lalu") tiap menit
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!message.createdAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, [message.createdAt]);
 
   const startEditing = () => {
     __globalEditingId = message.id;
@@ -532,6 +391,97 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
     return textOnly.trim();
   };
 
+  // ✅ Waktu kirim, dengan detail lengkap di tooltip
+  const renderTimestamp = () => {
+    if (!message.createdAt) return null;
+
+    const details = [new Date(message.createdAt).toLocaleString(locale)];
+    if (message.model || message.provider) {
+      details.push([message.model, message.provider].filter(Boolean).join(' · '));
+    }
+    if (message.latencyMs !== undefined) {
+      details.push(t('messageLatency', { seconds: (message.latencyMs / 1000).toFixed(1) }));
+    }
+    if (message.usage) {
+      details.push(t('messageTokens', {
+        prompt: String(message.usage.promptTokens),
+        completion: String(message.usage.completionTokens),
+      }));
+    }
+
+    return (
+      <span className="px-2 text-gray-500 whitespace-nowrap" title={details.join('\n')}>
+        {formatRelativeTime(message.createdAt, locale, now) ?? t('justNow')}
+      </span>
+    );
+  };
+
+  const renderAttachments = () => {
+    if (!message.attachments || message.attachments.length === 0) return null;
+
+    return (
+      <div className={`flex flex-wrap gap-2 ${message.sender === MessageSender.User ? 'justify-end' : ''}`}>
+        {message.attachments.map((attachment) => {
+          const content = (
+            <>
+              <FiPaperclip size={12} className="flex-shrink-0" />
+              <span className="truncate max-w-[12rem]">{attachment.name}</span>
+              <span className="text-gray-500">{formatFileSize(attachment.size)}</span>
+            </>
+          );
+          const className = 'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-gray-800 border border-gray-700 text-xs text-gray-300';
+
+          return attachment.url ? (
+            <a
+              key={attachment.id}
+              href={attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`${className} hover:border-blue-500/50 transition-colors`}
+            >
+              {content}
+            </a>
+          ) : (
+            <span key={attachment.id} className={className} title={attachment.mimeType}>
+              {content}
+            </span>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // ✅ Navigasi "< 2/3 >" antar versi pesan
+  const renderBranchNavigator = () => {
+    if (!branch || !onSwitchBranch) return null;
+
+    const navButtonClass = 'p-1 rounded-md transition text-gray-400 hover:text-white hover:bg-gray-700/50 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent';
+
+    return (
+      <div className="flex items-center gap-0.5 text-xs text-gray-400 select-none">
+        <button
+          onClick={() => onSwitchBranch(message.id, -1)}
+          disabled={branch.index === 0 || anyEditingActive}
+          className={navButtonClass}
+          title={t('previousVersion')}
+        >
+          <FiChevronLeft size={14} />
+        </button>
+        <span className="tabular-nums">
+          {branch.index + 1}/{branch.total}
+        </span>
+        <button
+          onClick={() => onSwitchBranch(message.id, 1)}
+          disabled={branch.index === branch.total - 1 || anyEditingActive}
+          className={navButtonClass}
+          title={t('nextVersion')}
+        >
+          <FiChevronRight size={14} />
+        </button>
+      </div>
+    );
+  };
+
   if (message.sender === MessageSender.User) {
     return (
       <>
@@ -588,6 +538,8 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           )}
           </div>
 
+          {!isEditingLocal && renderAttachments()}
+
           <div className="flex items-start gap-3 sm:gap-4 justify-end w-full">
             <div
               className={`transition-all duration-200 ${isEditingLocal
@@ -615,7 +567,8 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                     </button>
                     <button
                       onClick={handleSaveEdit}
-                      className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-white text-blue-600 hover:brightness-95 transition"
+                      disabled={isGenerating}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-white text-blue-600 hover:brightness-95 transition disabled:opacity-40 disabled:cursor-not-allowed"
                     >
                       <FiCheck size={14} />
                       {t('save')}
@@ -634,30 +587,36 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             </div>
           </div>
 
-          {!isEditingLocal && !shouldHideButtons && (
-            <div className="flex text-xs md:mr-10">
-              <button
-                onClick={() => onResendMessage(message.text)}
-                disabled={anyEditingActive}
-                className={`flex items-center px-2.5 py-1.5 rounded-lg transition ${anyEditingActive
-                  ? 'opacity-40 cursor-not-allowed text-gray-500'
-                  : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
-                  }`}
-                title={t('running')}
-              >
-                <FiRefreshCw size={13} />
-              </button>
-              <button
-                onClick={startEditing}
-                disabled={anyEditingActive}
-                className={`flex items-center px-2.5 py-1.5 rounded-lg transition ${anyEditingActive
-                  ? 'opacity-40 cursor-not-allowed text-gray-500'
-                  : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
-                  }`}
-                title={t('editingNote')}
-              >
-                <FiEdit3 size={13} />
-              </button>
+          {!isEditingLocal && (branch || !shouldHideButtons || message.createdAt) && (
+            <div className="flex items-center text-xs md:mr-10">
+              {renderTimestamp()}
+              {renderBranchNavigator()}
+              {!shouldHideButtons && (
+                <>
+                  <button
+                    onClick={() => onResendMessage(message.text)}
+                    disabled={anyEditingActive || isGenerating}
+                    className={`flex items-center px-2.5 py-1.5 rounded-lg transition ${anyEditingActive || isGenerating
+                      ? 'opacity-40 cursor-not-allowed text-gray-500'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+                      }`}
+                    title={t('running')}
+                  >
+                    <FiRefreshCw size={13} />
+                  </button>
+                  <button
+                    onClick={startEditing}
+                    disabled={anyEditingActive || isGenerating}
+                    className={`flex items-center px-2.5 py-1.5 rounded-lg transition ${anyEditingActive || isGenerating
+                      ? 'opacity-40 cursor-not-allowed text-gray-500'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+                      }`}
+                    title={t('editingNote')}
+                  >
+                    <FiEdit3 size={13} />
+                  </button>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -724,7 +683,9 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         <div className="max-w-[85%] sm:max-w-xl lg:max-w-3xl px-4 sm:px-5 py-3 rounded-2xl bg-gray-700 rounded-bl-none">
           <div className="flex flex-col gap-2">
             <p className="text-gray-400 text-sm animate-pulse">
-              {loadingMessage}
+              {retryProgress
+                ? t('retryingAttempt', { retry: String(retryProgress.retry), total: String(retryProgress.maxRetries) })
+                : loadingMessage}
             </p>
           </div>
         </div>
@@ -732,7 +693,9 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
     );
   }
 
-  const aiResponseParts = parseAiResponse(message.text);
+  // Failed turns have their own Retry action
+  const showRegenerate = Boolean(onRegenerateMessage) && !message.error && !shouldHideButtons;
+  const showOpenCanvas = hasCanvasContent && !shouldHideButtons && !isThisCanvasActive;
 
   return (
     <>
@@ -740,38 +703,71 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         <div className="flex items-start gap-3 sm:gap-4">
           <div className="max-w-[100%] sm:max-w-xl lg:max-w-3xl w-full py-3 rounded-bl-none">
             <div className="flex flex-col gap-4 text-white text-sm sm:text-base">
-              {aiResponseParts.map((part, index) => {
-                if (part.type === 'text') {
-                  return (
-                    <p key={index} className="whitespace-pre-wrap break-words overflow-wrap-anywhere leading-relaxed">
-                      {part.content as string}
-                    </p>
-                  );
-                }
-                if (part.type === 'code') {
-                  const { language, code } = part.content as { language: string; code: string };
-                  return <CodeBlock key={index} language={language} code={code} />;
-                }
-                if (part.type === 'table') {
-                  const { headers, rows } = part.content as { headers: string[]; rows: (string | number)[][] };
-                  return <Table key={index} headers={headers} rows={rows} />;
-                }
-                return null;
-              })}
+              <MarkdownContent text={message.text} isStreaming={isStreaming} idPrefix={`m-${message.id}`} />
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 bg-gray-300 animate-pulse rounded-sm" aria-hidden />
+              )}
+              {renderAttachments()}
+              {message.error && (
+                <div className="flex flex-col gap-3 p-4 bg-red-900/20 border border-red-700/50 rounded-lg">
+                  <div className="flex items-start gap-2">
+                    <FiAlertTriangle className="text-red-400 flex-shrink-0 mt-0.5" size={16} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-red-300">
+                        {t(ERROR_MESSAGE_KEYS[message.error.kind], { status: String(message.error.status ?? '') })}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">{t('aiErrorNotSaved')}</p>
+                    </div>
+                  </div>
+                  {onRetryMessage && (
+                    <button
+                      onClick={() => onRetryMessage(message.id)}
+                      disabled={isGenerating}
+                      className="self-start flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-red-600/20 hover:bg-red-600/30 text-red-300 hover:text-red-200 transition-colors text-xs font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <FiRefreshCw size={12} />
+                      {t('retry')}
+                    </button>
+                  )}
+                </div>
+              )}
+              {message.cancelled && (
+                <p className="flex items-center gap-1.5 text-xs text-gray-500 italic">
+                  <FiSlash size={12} />
+                  {t('generationStopped')}
+                </p>
+              )}
             </div>
           </div>
         </div>
 
-        {hasCanvasContent && !shouldHideButtons && !isThisCanvasActive && (
-          <div className="flex text-xs">
-            <button
-              onClick={handleOpenCanvas}
-              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition text-gray-400 hover:text-white hover:bg-gray-700/50"
-              title={t('openCanvas')}
-            >
-              <FiMaximize2 size={13} />
-              {t('openCanvas')}
-            </button>
+        {!isStreaming && (branch || showRegenerate || showOpenCanvas || message.createdAt) && (
+          <div className="flex items-center text-xs">
+            {renderBranchNavigator()}
+            {showRegenerate && (
+              <button
+                onClick={() => onRegenerateMessage!(message.id)}
+                disabled={anyEditingActive}
+                className={`flex items-center px-2.5 py-1.5 rounded-lg transition ${anyEditingActive
+                  ? 'opacity-40 cursor-not-allowed text-gray-500'
+                  : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+                  }`}
+                title={t('regenerateResponse')}
+              >
+                <FiRefreshCw size={13} />
+              </button>
+            )}
+            {showOpenCanvas && (
+              <button
+                onClick={handleOpenCanvas}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition text-gray-400 hover:text-white hover:bg-gray-700/50"
+                title={t('openCanvas')}
+              >
+                <FiMaximize2 size={13} />
+                {t('openCanvas')}
+              </button>
+            )}
+            {renderTimestamp()}
           </div>
         )}
       </div>
@@ -781,12 +777,18 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           {isReact ? (
             <ReactPreviewCanvas
               files={codeFiles}
+              history={earlierCodeFiles}
+              onSendEdits={onResendMessage}
+              isGenerating={isGenerating}
               onClose={handleCloseCanvas}
               onWidthChange={handleWidthChange}
             />
           ) : (
             <VibeCodingCanvas
               files={codeFiles}
+              history={earlierCodeFiles}
+              onSendEdits={onResendMessage}
+              isGenerating={isGenerating}
               onClose={handleCloseCanvas}
               onWidthChange={handleWidthChange}
             />
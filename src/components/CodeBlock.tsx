@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useLocalization } from '../contexts/LocalizationContext';
 import {
   FiChevronDown,
@@ -6,17 +6,62 @@ import {
   FiCopy,
   FiCheck
 } from 'react-icons/fi';
+import { MdWrapText } from 'react-icons/md';
+import {
+  DiffLineKind,
+  Token,
+  TokenType,
+  classifyDiffLine,
+  parseLineRanges,
+  tokenizeLines,
+} from '../services/syntaxHighlighter';
 
 interface CodeBlockProps {
   language: string;
   code: string;
+  // 1-based lines to emphasize, e.g. "3-5,8" from a ```ts {3-5,8} fence
+  highlightLines?: string;
 }
 
-export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code }) => {
+const PREVIEW_LINE_COUNT = 3;
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  keyword: 'text-purple-400',
+  literal: 'text-orange-300',
+  function: 'text-blue-300',
+  type: 'text-yellow-200',
+  tag: 'text-red-300',
+  attr: 'text-yellow-300',
+  property: 'text-sky-300',
+  variable: 'text-red-300',
+  meta: 'text-pink-300',
+};
+
+const DIFF_LINE_CLASSES: Record<DiffLineKind, string> = {
+  added: 'bg-green-900/30 text-green-300',
+  removed: 'bg-red-900/30 text-red-300',
+  hunk: 'text-blue-300',
+  meta: 'text-gray-400 font-semibold',
+  context: '',
+};
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, highlightLines }) => {
   const [copied, setCopied] = useState(false);
   const [isCodeCollapsed, setIsCodeCollapsed] = useState(true);
+  const [isWrapped, setIsWrapped] = useState(false);
   const { t } = useLocalization();
 
+  const isDiff = language.toLowerCase() === 'diff';
+  const lines = useMemo<Token[][]>(
+    () => (isDiff ? code.split('\n').map((line) => [{ type: 'plain', text: line }]) : tokenizeLines(code, language)),
+    [code, language, isDiff]
+  );
+  const highlightedLines = useMemo(() => parseLineRanges(highlightLines), [highlightLines]);
+
   const handleCopy = () => {
     navigator.clipboard.writeText(code).then(() => {
       setCopied(true);
@@ -28,11 +73,13 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code }) => {
     setIsCodeCollapsed(prev => !prev);
   };
 
-  // Get first few lines for preview
-  const getCodePreview = () => {
-    const lines = code.split('\n');
-    const previewLines = lines.slice(0, 3);
-    return previewLines.join('\n') + (lines.length > 3 ? '\n...' : '');
+  const visibleLines = isCodeCollapsed ? lines.slice(0, PREVIEW_LINE_COUNT) : lines;
+  const lineNumberWidth = `${String(lines.length).length + 1}ch`;
+
+  const getLineClass = (tokens: Token[], lineNumber: number) => {
+    if (highlightedLines.has(lineNumber)) return 'bg-yellow-400/10';
+    if (isDiff) return DIFF_LINE_CLASSES[classifyDiffLine(tokens[0]?.text ?? '')];
+    return '';
   };
 
   return (
@@ -43,6 +90,18 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code }) => {
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Word Wrap Toggle */}
+          <button
+            onClick={() => setIsWrapped(prev => !prev)}
+            title={t('wordWrap')}
+            aria-pressed={isWrapped}
+            className={`transition-colors flex items-center text-xs border-r border-gray-700 pr-2 ${
+              isWrapped ? 'text-blue-400 hover:text-blue-300' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            <MdWrapText size={16} />
+          </button>
+
           {/* Code Collapse Toggle */}
           <button 
             onClick={toggleCodeCollapse} 
@@ -88,8 +147,33 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code }) => {
               display: none;
             }
           `}</style>
-          <code className="text-white">
-            {isCodeCollapsed ? getCodePreview() : code}
+          <code className={`block text-white ${isWrapped ? '' : 'w-max min-w-full'}`}>
+            {visibleLines.map((tokens, index) => {
+              const lineNumber = index + 1;
+              const isHighlighted = highlightedLines.has(lineNumber);
+              return (
+                <div key={index} className={`flex ${getLineClass(tokens, lineNumber)}`}>
+                  <span
+                    className={`select-none flex-shrink-0 pr-4 text-right ${isHighlighted ? 'text-yellow-400' : 'text-gray-600'}`}
+                    style={{ width: lineNumberWidth, boxSizing: 'content-box' }}
+                    aria-hidden
+                  >
+                    {lineNumber}
+                  </span>
+                  <span className={`flex-1 ${isWrapped ? 'whitespace-pre-wrap break-all' : 'whitespace-pre'}`}>
+                    {tokens.length === 0
+                      ? ' '
+                      : tokens.map((token, tokenIndex) =>
+                          TOKEN_CLASSES[token.type] ? (
+                            <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                          ) : (
+                            token.text
+                          )
+                        )}
+                  </span>
+                </div>
+              );
+            })}
           </code>
         </pre>
         
@@ -99,7 +183,7 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code }) => {
             className="text-center py-2 bg-gray-800/30 cursor-pointer hover:bg-gray-800/50 transition-colors text-xs text-gray-500"
             onClick={toggleCodeCollapse}
           >
-            Click to expand full code ({code.split('\n').length} lines)
+            Click to expand full code ({lines.length} lines)
           </div>
         )}
       </div>
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { DiffLine, countChanges, diffLines } from '../services/textDiff';
+import { useLocalization } from '../contexts/LocalizationContext';
+
+interface CodeDiffViewProps {
+  fileName: string;
+  previous: string;
+  current: string;
+}
+
+type DiffLayout = 'unified' | 'split';
+
+interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+const LINE_CLASSES: Record<DiffLine['op'], string> = {
+  equal: 'text-gray-300',
+  insert: 'bg-green-900/30 text-green-300',
+  delete: 'bg-red-900/30 text-red-300',
+};
+
+const SIGNS: Record<DiffLine['op'], string> = { equal: ' ', insert: '+', delete: '-' };
+
+// Pair each run of removed lines with the added lines that follow it
+const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].op === 'equal') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].op === 'delete') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].op === 'insert') added.push(lines[i++]);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+  return rows;
+};
+
+const LineNumber: React.FC<{ value?: number }> = ({ value }) => (
+  <span className="select-none w-10 flex-shrink-0 pr-2 text-right text-gray-600">{value ?? ''}</span>
+);
+
+const SplitCell: React.FC<{ line?: DiffLine; side: 'old' | 'new' }> = ({ line, side }) => (
+  <div className={`flex min-w-0 ${line ? LINE_CLASSES[line.op] : 'bg-gray-800/40'}`}>
+    <LineNumber value={side === 'old' ? line?.oldNumber : line?.newNumber} />
+    <span className="flex-1 min-w-0 whitespace-pre-wrap break-all">{line?.text || ' '}</span>
+  </div>
+);
+
+export const CodeDiffView: React.FC<CodeDiffViewProps> = ({ fileName, previous, current }) => {
+  const { t } = useLocalization();
+  const [layout, setLayout] = useState<DiffLayout>('unified');
+
+  const lines = useMemo(() => diffLines(previous, current), [previous, current]);
+  const { added, removed } = useMemo(() => countChanges(lines), [lines]);
+  const splitRows = useMemo(() => (layout === 'split' ? toSplitRows(lines) : []), [layout, lines]);
+
+  return (
+    <div className="h-full flex flex-col bg-gray-900">
+      <div className="sticky top-0 bg-gray-800 px-4 py-2 border-b border-gray-700 text-sm text-gray-400 flex items-center justify-between gap-3 z-10">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="truncate">{fileName}</span>
+          <span className="text-xs text-green-400">+{added}</span>
+          <span className="text-xs text-red-400">-{removed}</span>
+        </div>
+        <div className="flex items-center text-xs bg-gray-700 rounded-md p-0.5 flex-shrink-0">
+          {(['unified', 'split'] as DiffLayout[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setLayout(option)}
+              className={`px-2.5 py-1 rounded-sm transition-colors ${
+                layout === option ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-600/50'
+              }`}
+            >
+              {option === 'unified' ? t('diffUnified') : t('diffSplit')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {added === 0 && removed === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">{t('noChangesSincePrevious')}</div>
+      ) : (
+        <div className="flex-1 overflow-auto py-2 font-mono text-xs sm:text-sm leading-relaxed">
+          {layout === 'unified'
+            ? lines.map((line, index) => (
+                <div key={index} className={`flex ${LINE_CLASSES[line.op]}`}>
+                  <LineNumber value={line.oldNumber} />
+                  <LineNumber value={line.newNumber} />
+                  <span className="select-none w-5 flex-shrink-0 text-center">{SIGNS[line.op]}</span>
+                  <span className="flex-1 min-w-0 whitespace-pre-wrap break-all pr-4">{line.text || ' '}</span>
+                </div>
+              ))
+            : splitRows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2 gap-px">
+                  <SplitCell line={row.left} side="old" />
+                  <SplitCell line={row.right} side="new" />
+                </div>
+              ))}
+        </div>
+      )}
+    </div>
+  );
+};
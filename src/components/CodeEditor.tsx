@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  ariaLabel: string;
+}
+
+const INDENT = '  ';
+
+// Plain textarea editor for the canvas; Tab indents instead of leaving the field
+export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, ariaLabel }) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || e.shiftKey || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    textarea.setRangeText(INDENT, textarea.selectionStart, textarea.selectionEnd, 'end');
+    onChange(textarea.value);
+  };
+
+  return (
+    <textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={handleKeyDown}
+      spellCheck={false}
+      autoCapitalize="off"
+      autoCorrect="off"
+      aria-label={ariaLabel}
+      className="flex-1 w-full min-h-0 resize-none bg-gray-900 text-white font-mono text-sm leading-relaxed p-4 focus:outline-none"
+    />
+  );
+};
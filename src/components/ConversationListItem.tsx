@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HiTrash } from 'react-icons/hi';
+import { IoChatbubblesOutline } from 'react-icons/io5';
+import { BsPinAngle, BsPinAngleFill } from 'react-icons/bs';
+import { FiMoreHorizontal, FiEdit2, FiArchive, FiDownload, FiFolder, FiCheck } from 'react-icons/fi';
+import { Conversation, ConversationChanges, ConversationFolder } from '../../types';
+import { useLocalization } from '../contexts/LocalizationContext';
+
+// dataTransfer type for dragging conversations onto sidebar sections
+export const CONVERSATION_DRAG_TYPE = 'application/x-syrion-conversation';
+
+const MAX_TITLE_LENGTH = 100;
+
+interface ConversationListItemProps {
+  conversation: Conversation;
+  folders: ConversationFolder[];
+  isActive: boolean;
+  isCollapsed: boolean;
+  onSelect: (id: string) => void;
+  onUpdate: (id: string, changes: ConversationChanges) => void;
+  onExport: (conversation: Conversation) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ConversationListItem: React.FC<ConversationListItemProps> = ({
+  conversation,
+  folders,
+  isActive,
+  isCollapsed,
+  onSelect,
+  onUpdate,
+  onExport,
+  onDelete,
+}) => {
+  const { t } = useLocalization();
+  const [isMenuOpen, setMenuOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(conversation.title);
+  const itemRef = useRef<HTMLLIElement>(null);
+
+  // Tutup menu saat klik di luar item atau tekan Escape
+  useEffect(() => {
+    if (!isMenuOpen) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!itemRef.current?.contains(e.target as Node)) setMenuOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setMenuOpen(false);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isMenuOpen]);
+
+  const startRename = () => {
+    setDraftTitle(conversation.title);
+    setIsRenaming(true);
+    setMenuOpen(false);
+  };
+
+  const commitRename = () => {
+    const title = draftTitle.trim().slice(0, MAX_TITLE_LENGTH);
+    if (title && title !== conversation.title) {
+      onUpdate(conversation.id, { title });
+    }
+    setIsRenaming(false);
+  };
+
+  const runMenuAction = (action: () => void) => {
+    setMenuOpen(false);
+    action();
+  };
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(CONVERSATION_DRAG_TYPE, conversation.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  if (isRenaming) {
+    return (
+      <li className="px-2">
+        <input
+          type="text"
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setIsRenaming(false);
+          }}
+          maxLength={MAX_TITLE_LENGTH}
+          autoFocus
+          aria-label={t('renameConversation')}
+          className="w-full bg-gray-800 border border-blue-500 rounded-md px-2 py-1.5 text-sm text-white focus:outline-none"
+        />
+      </li>
+    );
+  }
+
+  const menuItemBaseClass = 'w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-gray-700 transition-colors';
+  const menuItemClass = `${menuItemBaseClass} text-gray-200`;
+
+  return (
+    <li ref={itemRef} className="group relative">
+      <button
+        onClick={() => onSelect(conversation.id)}
+        onDoubleClick={() => !isCollapsed && startRename()}
+        draggable={!isCollapsed}
+        onDragStart={handleDragStart}
+        className={`w-full text-left text-sm px-4 py-2 rounded-md flex items-center gap-2 transition-colors ${
+          isActive ? 'bg-gray-700' : 'hover:bg-gray-800'
+        }`}
+        title={isCollapsed ? conversation.title : ''}
+      >
+        {isCollapsed ? (
+          <IoChatbubblesOutline />
+        ) : (
+          <>
+            <span className="truncate flex-1">{conversation.title}</span>
+
+            <div
+              onClick={(e) => {
+                e.stopPropagation();
+                setMenuOpen((open) => !open);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  setMenuOpen((open) => !open);
+                }
+              }}
+              role="button"
+              tabIndex={0}
+              aria-haspopup="menu"
+              aria-expanded={isMenuOpen}
+              className={`p-1 rounded-full hover:bg-gray-600 text-gray-400 hover:text-white transition-opacity cursor-pointer ${
+                isMenuOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+              }`}
+              title={t('conversationOptions')}
+            >
+              <FiMoreHorizontal />
+            </div>
+          </>
+        )}
+      </button>
+
+      {isMenuOpen && (
+        <div
+          role="menu"
+          className="absolute right-2 top-full z-40 mt-1 w-52 py-1 bg-gray-800 border border-gray-700 rounded-md shadow-lg"
+        >
+          <button role="menuitem" onClick={() => runMenuAction(startRename)} className={menuItemClass}>
+            <FiEdit2 /> {t('renameConversation')}
+          </button>
+          <button
+            role="menuitem"
+            onClick={() =>
+              runMenuAction(() =>
+                onUpdate(conversation.id, {
+                  pinnedAt: conversation.pinnedAt ? null : new Date().toISOString(),
+                  archivedAt: null,
+                })
+              )
+            }
+            className={menuItemClass}
+          >
+            {conversation.pinnedAt ? <BsPinAngleFill /> : <BsPinAngle />}
+            {conversation.pinnedAt ? t('unpinConversation') : t('pinConversation')}
+          </button>
+          <button
+            role="menuitem"
+            onClick={() =>
+              runMenuAction(() =>
+                onUpdate(conversation.id, {
+                  archivedAt: conversation.archivedAt ? null : new Date().toISOString(),
+                  pinnedAt: null,
+                })
+              )
+            }
+            className={menuItemClass}
+          >
+            <FiArchive />
+            {conversation.archivedAt ? t('unarchiveConversation') : t('archiveConversation')}
+          </button>
+
+          {folders.length > 0 && (
+            <div className="my-1 border-t border-gray-700 pt-1">
+              <p className="px-3 py-1 text-xs text-gray-500">{t('moveToFolder')}</p>
+              {[{ id: null, name: t('noFolder') }, ...folders].map((folder) => {
+                const isCurrent = (conversation.folderId ?? null) === folder.id;
+                return (
+                  <button
+                    key={folder.id ?? 'none'}
+                    role="menuitemradio"
+                    aria-checked={isCurrent}
+                    onClick={() => runMenuAction(() => !isCurrent && onUpdate(conversation.id, { folderId: folder.id }))}
+                    className={menuItemClass}
+                  >
+                    <FiFolder className="flex-shrink-0" />
+                    <span className="truncate flex-1">{folder.name}</span>
+                    {isCurrent && <FiCheck className="flex-shrink-0 text-blue-400" />}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="my-1 border-t border-gray-700 pt-1">
+            <button role="menuitem" onClick={() => runMenuAction(() => onExport(conversation))} className={menuItemClass}>
+              <FiDownload /> {t('exportConversation')}
+            </button>
+            <button
+              role="menuitem"
+              onClick={() => runMenuAction(() => onDelete(conversation.id))}
+              className={`${menuItemBaseClass} text-red-400 hover:text-red-300`}
+            >
+              <HiTrash /> {t('delete')}
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+};
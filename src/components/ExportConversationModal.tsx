@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiFileText, FiCode, FiGlobe, FiPrinter } from 'react-icons/fi';
+import { Conversation } from '../../types';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { exportConversation, ExportFormat } from '../services/exportService';
+import { Modal } from './Modal';
+
+interface ExportConversationModalProps {
+  // Modal is shown while a conversation is set
+  conversation: Conversation | null;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; icon: React.ReactNode; labelKey: string; descriptionKey: string }[] = [
+  { format: 'markdown', icon: <FiFileText />, labelKey: 'exportMarkdown', descriptionKey: 'exportMarkdownDescription' },
+  { format: 'json', icon: <FiCode />, labelKey: 'exportJson', descriptionKey: 'exportJsonDescription' },
+  { format: 'html', icon: <FiGlobe />, labelKey: 'exportHtml', descriptionKey: 'exportHtmlDescription' },
+  { format: 'pdf', icon: <FiPrinter />, labelKey: 'exportPdf', descriptionKey: 'exportPdfDescription' },
+];
+
+export const ExportConversationModal: React.FC<ExportConversationModalProps> = ({ conversation, onClose }) => {
+  const { t } = useLocalization();
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!conversation || isExporting) return;
+
+    setIsExporting(true);
+    try {
+      await exportConversation(conversation, format);
+      onClose();
+    } catch {
+      toast.error(t('exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={conversation !== null}
+      onClose={onClose}
+      onConfirm={handleExport}
+      title={t('exportConversation')}
+      confirmText={isExporting ? t('exporting') : t('export')}
+    >
+      <p className="mb-4 truncate">{conversation?.title}</p>
+      <div className="space-y-2" role="radiogroup">
+        {FORMAT_OPTIONS.map((option) => (
+          <button
+            key={option.format}
+            type="button"
+            role="radio"
+            aria-checked={format === option.format}
+            onClick={() => setFormat(option.format)}
+            className={`w-full flex items-start gap-3 p-3 rounded-md border text-left transition-colors ${
+              format === option.format
+                ? 'border-blue-500 bg-blue-500/10'
+                : 'border-gray-700 bg-gray-900 hover:border-gray-600'
+            }`}
+          >
+            <span className={`mt-0.5 ${format === option.format ? 'text-blue-400' : 'text-gray-400'}`}>{option.icon}</span>
+            <span>
+              <span className="block text-sm font-medium text-white">{t(option.labelKey)}</span>
+              <span className="block text-xs text-gray-400">{t(option.descriptionKey)}</span>
+            </span>
+          </button>
+        ))}
+      </div>
+    </Modal>
+  );
+};
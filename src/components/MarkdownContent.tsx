@@ -0,0 +1,256 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Components, ExtraProps, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+import { FiLink } from 'react-icons/fi';
+import { CodeBlock } from './CodeBlock';
+import { Table } from './Table';
+import { MermaidDiagram } from './MermaidDiagram';
+import { useLocalization } from '../contexts/LocalizationContext';
+
+interface MarkdownContentProps {
+  text: string;
+  // Prefix for heading and footnote ids, so several messages on one page don't collide
+  idPrefix: string;
+  isStreaming?: boolean;
+}
+
+type HastNode = NonNullable<ExtraProps['node']>;
+type HastChild = HastNode['children'][number];
+
+// Minimal mdast shape used by the heading plugin
+interface MdastNode {
+  type: string;
+  value?: string;
+  children?: MdastNode[];
+  data?: { hProperties?: Record<string, unknown> };
+}
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Links and images may only point to the web, mail/phone or an anchor on the page.
+ * Anything else (javascript:, data:, vbscript:, ...) is dropped.
+ */
+export const sanitizeUrl = (url: string): string => {
+  const trimmed = url.trim();
+  if (trimmed.startsWith('#')) return trimmed;
+  try {
+    const parsed = new URL(trimmed);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? trimmed : '';
+  } catch {
+    // Relative URLs have no meaning inside a chat message
+    return '';
+  }
+};
+
+const toSlug = (text: string) =>
+  text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-') || 'section';
+
+const mdastText = (node: MdastNode): string =>
+  node.value ?? (node.children || []).map(mdastText).join('');
+
+// Give every heading a unique id so it can be linked to
+const remarkHeadingIds = ({ prefix }: { prefix: string }) => (tree: MdastNode) => {
+  const seen = new Map<string, number>();
+  const walk = (node: MdastNode) => {
+    if (node.type === 'heading') {
+      const slug = toSlug(mdastText(node));
+      const count = seen.get(slug) ?? 0;
+      seen.set(slug, count + 1);
+      node.data = {
+        ...node.data,
+        hProperties: { ...node.data?.hProperties, id: `${prefix}-${count > 0 ? `${slug}-${count}` : slug}` },
+      };
+    }
+    node.children?.forEach(walk);
+  };
+  walk(tree);
+};
+
+const hastText = (node: HastChild | HastNode): string => {
+  if (node.type === 'text') return node.value;
+  if ('children' in node) return node.children.map((child) => hastText(child as HastChild)).join('');
+  return '';
+};
+
+const childElements = (node: HastNode, tagName?: string): HastNode[] =>
+  node.children.filter(
+    (child): child is HastNode => child.type === 'element' && (!tagName || child.tagName === tagName)
+  );
+
+// Saat streaming, sembunyikan fence yang baru setengah ditulis (mis. "``" atau "```py" tanpa baris baru)
+const hidePartialFence = (text: string) => text.replace(/(^|\n)`{1,3}[^\n`]*$/, '$1');
+
+// Math that fails to parse is shown in red instead of breaking the whole message
+const rehypePlugins: Options['rehypePlugins'] = [[rehypeKatex, { throwOnError: false, strict: 'ignore' }]];
+
+const HEADING_CLASSES: Record<string, string> = {
+  h1: 'text-2xl font-bold mt-2',
+  h2: 'text-xl font-bold mt-2',
+  h3: 'text-lg font-semibold mt-1',
+  h4: 'text-base font-semibold',
+  h5: 'text-sm font-semibold',
+  h6: 'text-sm font-semibold text-gray-300',
+};
+
+const renderHeading = (Tag: 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6') =>
+  ({ node: _node, id, children }: React.HTMLAttributes<HTMLHeadingElement> & ExtraProps) => (
+    <Tag id={id} className={`group scroll-mt-20 text-white ${HEADING_CLASSES[Tag]}`}>
+      {children}
+      {id && (
+        <a
+          href={`#${id}`}
+          className="ml-2 inline-block align-middle text-gray-500 hover:text-blue-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          aria-label={`#${id}`}
+        >
+          <FiLink size={14} />
+        </a>
+      )}
+    </Tag>
+  );
+
+const components: Components = {
+  h1: renderHeading('h1'),
+  h2: renderHeading('h2'),
+  h3: renderHeading('h3'),
+  h4: renderHeading('h4'),
+  h5: renderHeading('h5'),
+  h6: renderHeading('h6'),
+  p: ({ node: _node, ...props }) => <p className="break-words overflow-wrap-anywhere leading-relaxed" {...props} />,
+  strong: ({ node: _node, ...props }) => <strong className="font-semibold text-white" {...props} />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote className="border-l-4 border-gray-600 pl-4 text-gray-300 italic flex flex-col gap-2" {...props} />
+  ),
+  hr: () => <hr className="border-gray-700" />,
+  ul: ({ node: _node, className, ...props }) => (
+    <ul
+      className={`flex flex-col gap-1 ${className?.includes('contains-task-list') ? 'pl-1' : 'list-disc pl-6'}`}
+      {...props}
+    />
+  ),
+  ol: ({ node: _node, ...props }) => <ol className="list-decimal pl-6 flex flex-col gap-1" {...props} />,
+  li: ({ node: _node, className, ...props }) => (
+    <li
+      className={`leading-relaxed [&>ul]:mt-1 [&>ol]:mt-1 ${
+        className?.includes('task-list-item') ? 'list-none flex items-start gap-2' : ''
+      }`}
+      {...props}
+    />
+  ),
+  input: ({ node: _node, type, checked }) =>
+    type === 'checkbox' ? (
+      <input
+        type="checkbox"
+        checked={Boolean(checked)}
+        readOnly
+        disabled
+        className="mt-1.5 rounded border-gray-600 bg-gray-800 text-blue-500"
+      />
+    ) : null,
+  a: ({ node: _node, href, children, ...props }) => {
+    const safeHref = href ? sanitizeUrl(href) : '';
+    if (!safeHref) return <span className="text-gray-300">{children}</span>;
+
+    const isAnchor = safeHref.startsWith('#');
+    return (
+      <a
+        {...props}
+        href={safeHref}
+        className="text-blue-400 hover:text-blue-300 underline underline-offset-2 break-words"
+        {...(isAnchor ? {} : { target: '_blank', rel: 'noopener noreferrer nofollow' })}
+      >
+        {children}
+      </a>
+    );
+  },
+  img: ({ node: _node, src, alt }) => {
+    const safeSrc = typeof src === 'string' ? sanitizeUrl(src) : '';
+    if (!safeSrc || safeSrc.startsWith('#')) return alt ? <span className="text-gray-400">{alt}</span> : null;
+    return <img src={safeSrc} alt={alt ?? ''} loading="lazy" className="max-w-full rounded-lg border border-gray-700/50" />;
+  },
+  code: ({ node: _node, className, children }) => (
+    <code className={`px-1.5 py-0.5 rounded bg-gray-800 text-[0.9em] text-pink-300 font-mono ${className ?? ''}`}>
+      {children}
+    </code>
+  ),
+  // Fenced code: the <code> inside is handled here, never by `code` above
+  pre: ({ node }) => {
+    const codeElement = node ? childElements(node, 'code')[0] : undefined;
+    if (!codeElement) return null;
+
+    const classNames = ([] as unknown[]).concat(codeElement.properties?.className ?? []).map(String);
+    const language = classNames.find((name) => name.startsWith('language-'))?.slice('language-'.length);
+    const code = hastText(codeElement).replace(/\n+$/, '');
+    if (language?.toLowerCase() === 'mermaid') return <MermaidDiagram code={code} />;
+
+    // Line ranges to highlight come from the fence info, e.g. ```ts {3-5,8}
+    const meta = (codeElement.data as { meta?: string | null } | undefined)?.meta ?? '';
+    const highlightLines = meta.match(/\{([\d,\s-]+)\}/)?.[1];
+    return <CodeBlock language={language || 'text'} code={code} highlightLines={highlightLines} />;
+  },
+  table: ({ node }) => {
+    if (!node) return null;
+    const rows = [...childElements(node, 'thead'), ...childElements(node, 'tbody')]
+      .flatMap((section) => childElements(section, 'tr'))
+      .map((tr) => childElements(tr).map((cell) => hastText(cell).trim()));
+    if (rows.length === 0) return null;
+
+    return <Table headers={rows[0]} rows={rows.slice(1)} />;
+  },
+  section: ({ node: _node, className, ...props }) => (
+    <section
+      className={className?.includes('footnotes') ? 'mt-2 pt-3 border-t border-gray-700 text-xs text-gray-400' : className}
+      {...props}
+    />
+  ),
+  sup: ({ node: _node, ...props }) => <sup className="text-[0.7em]" {...props} />,
+};
+
+/**
+ * Render an AI answer as Markdown (GitHub flavour: tables, task lists, footnotes,
+ * strikethrough, autolinks) with $inline$ / $$display$$ math and ```mermaid diagrams.
+ * Raw HTML in the text is not rendered.
+ */
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, idPrefix, isStreaming = false }) => {
+  const { t } = useLocalization();
+
+  const remarkPlugins = useMemo<Options['remarkPlugins']>(
+    () => [remarkGfm, remarkMath, [remarkHeadingIds, { prefix: idPrefix }]],
+    [idPrefix]
+  );
+  const remarkRehypeOptions = useMemo(
+    () => ({
+      clobberPrefix: `${idPrefix}-`,
+      footnoteLabel: t('footnotes'),
+      // A paragraph rather than the default <h2>, so it doesn't get a heading anchor
+      footnoteLabelTagName: 'p',
+      footnoteLabelProperties: { className: ['font-medium text-gray-300'] },
+      footnoteBackLabel: t('backToContent'),
+    }),
+    [idPrefix, t]
+  );
+
+  const source = isStreaming ? hidePartialFence(text) : text;
+  if (!source.trim()) return null;
+
+  // Blocks render straight into the message column, which handles spacing
+  return (
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      remarkRehypeOptions={remarkRehypeOptions}
+      rehypePlugins={rehypePlugins}
+      components={components}
+      urlTransform={sanitizeUrl}
+    >
+      {source}
+    </ReactMarkdown>
+  );
+};
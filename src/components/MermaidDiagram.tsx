@@ -0,0 +1,158 @@
+import React, { useEffect, useId, useState } from 'react';
+import { FiDownload, FiImage, FiAlertTriangle } from 'react-icons/fi';
+import toast from 'react-hot-toast';
+import { CodeBlock } from './CodeBlock';
+import { downloadFile } from '../services/exportService';
+import { useLocalization } from '../contexts/LocalizationContext';
+
+interface MermaidDiagramProps {
+  code: string;
+}
+
+// Wait until the fence stops changing (e.g. while streaming) before rendering
+const RENDER_DELAY_MS = 300;
+const PNG_SCALE = 2;
+
+type MermaidApi = typeof import('mermaid')['default'];
+let mermaidPromise: Promise<MermaidApi> | null = null;
+
+// Mermaid is large, so it's only loaded the first time a diagram shows up
+const loadMermaid = () => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({
+        startOnLoad: false,
+        theme: 'dark',
+        securityLevel: 'strict',
+        // SVG text labels instead of <foreignObject>, which would taint the canvas for PNG export
+        htmlLabels: false,
+        flowchart: { htmlLabels: false },
+      });
+      return mermaid;
+    });
+    mermaidPromise.catch(() => {
+      mermaidPromise = null;
+    });
+  }
+  return mermaidPromise;
+};
+
+const svgToPng = (svg: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth * PNG_SCALE;
+      canvas.height = image.naturalHeight * PNG_SCALE;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.fillStyle = '#111827';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not load diagram image'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code }) => {
+  const { t } = useLocalization();
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // useId contains ":" which is not valid in the element id mermaid renders into
+  const diagramId = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const mermaid = await loadMermaid();
+        const result = await mermaid.render(diagramId, code);
+        if (cancelled) return;
+        setSvg(result.svg);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error rendering Mermaid diagram:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        // Mermaid leaves its scratch element behind when parsing fails
+        document.getElementById(`d${diagramId}`)?.remove();
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, diagramId]);
+
+  const handleDownloadSvg = () => {
+    if (!svg) return;
+    downloadFile(svg, 'diagram.svg', 'image/svg+xml');
+  };
+
+  const handleDownloadPng = async () => {
+    if (!svg) return;
+    try {
+      downloadFile(await svgToPng(svg), 'diagram.png', 'image/png');
+    } catch (err) {
+      console.error('Error exporting diagram as PNG:', err);
+      toast.error(t('diagramExportFailed'));
+    }
+  };
+
+  if (error && !svg) {
+    return (
+      <div className="flex flex-col gap-2">
+        <p className="flex items-center gap-2 text-xs text-yellow-400">
+          <FiAlertTriangle className="flex-shrink-0" /> {t('diagramRenderFailed')}
+        </p>
+        <CodeBlock language="mermaid" code={code} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-lg my-2 text-sm border border-gray-700/50">
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-800/50 rounded-t-lg">
+        <span className="text-gray-400">{t('diagram')}</span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleDownloadSvg}
+            disabled={!svg}
+            className="text-gray-400 hover:text-white disabled:opacity-50 transition-colors flex items-center gap-1.5 text-xs"
+            title={t('downloadSvg')}
+          >
+            <FiDownload aria-hidden /> SVG
+          </button>
+          <button
+            onClick={handleDownloadPng}
+            disabled={!svg}
+            className="text-gray-400 hover:text-white disabled:opacity-50 transition-colors flex items-center gap-1.5 text-xs"
+            title={t('downloadPng')}
+          >
+            <FiImage aria-hidden /> PNG
+          </button>
+        </div>
+      </div>
+
+      {svg ? (
+        // Mermaid output is sanitized by its strict security level
+        <div
+          className="p-4 overflow-x-auto flex justify-center [&>svg]:max-w-full [&>svg]:h-auto"
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : (
+        <div className="flex items-center justify-center gap-2 p-6 text-xs text-gray-400">
+          <div className="animate-spin rounded-full h-4 w-4 border-2 border-gray-400 border-t-transparent" />
+          {t('renderingDiagram')}
+        </div>
+      )}
+    </div>
+  );
+};
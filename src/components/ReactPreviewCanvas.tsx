@@ -1,15 +1,20 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { FiCode, FiEye, FiX, FiCopy, FiCheck, FiAlertCircle, FiRefreshCw, FiPackage, FiTerminal, FiChevronDown } from 'react-icons/fi';
-
-interface CodeFile {
-  language: string;
-  content: string;
-}
+import { FiCode, FiEye, FiX, FiCopy, FiCheck, FiAlertCircle, FiRefreshCw, FiPackage, FiTerminal, FiChevronDown, FiGitPullRequest, FiRotateCcw, FiSend } from 'react-icons/fi';
+import { CodeDiffView } from './CodeDiffView';
+import { CodeEditor } from './CodeEditor';
+import { CodeFile, extractComponentName, findPreviousVersion, formatEditsMessage } from '../services/codeFiles';
+import { useLocalization } from '../contexts/LocalizationContext';
 
 interface ReactPreviewCanvasProps {
   files: CodeFile[];
+  // Files of earlier answers in the conversation, oldest first
+  history?: CodeFile[][];
   onClose: () => void;
   onWidthChange?: (width: number) => void;
+  // Sends the user's edits back to the AI as a new message
+  onSendEdits?: (message: string) => void;
+  // A reply is being generated; edits can't be sent until it is done
+  isGenerating?: boolean;
 }
 
 const isReactCode = (files: CodeFile[]): boolean => {
@@ -21,19 +26,6 @@ const isReactCode = (files: CodeFile[]): boolean => {
   });
 };
 
-const extractComponentName = (code: string): string | null => {
-  const funcMatch = code.match(/function\s+([A-Z]\w+)/);
-  if (funcMatch) return funcMatch[1];
-  
-  const constMatch = code.match(/const\s+([A-Z]\w+)\s*=/);
-  if (constMatch) return constMatch[1];
-  
-  const exportMatch = code.match(/export\s+default\s+([A-Z]\w+)/);
-  if (exportMatch) return exportMatch[1];
-  
-  return null;
-};
-
 const extractImports = (code: string): string[] => {
   const imports: string[] = [];
   const importRegex = /import\s+(?:(?:\*\s+as\s+\w+)|(?:\{[^}]+\})|(?:\w+))\s+from\s+['"]([^'"]+)['"]/g;
@@ -165,25 +157,29 @@ const ConsoleOutput: React.FC<{ logs: Array<{ type: string; message: string; tim
   );
 };
 
+// Wait until the user pauses typing in the editor before rebuilding the preview
+const PREVIEW_DEBOUNCE_MS = 500;
+
 // React Preview Component
 const ReactPreview: React.FC<{ files: CodeFile[] }> = ({ files }) => {
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const [error, setError] = useState<string>('');
   const [consoleLogs, setConsoleLogs] = useState<Array<{ type: string; message: string; timestamp: number }>>([]);
-  const [detectedPackages, setDetectedPackages] = useState<string[]>([]);
   const [showConsole, setShowConsole] = useState(false);
   const [key, setKey] = useState(0);
+  const [previewFiles, setPreviewFiles] = useState(files);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewFiles(files), PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [files]);
 
   const bundledCode = useMemo(() => {
     try {
-      setError('');
-      setConsoleLogs([]);
-      
-      const jsxFiles = files.filter(f => 
+      const jsxFiles = previewFiles.filter(f => 
         ['jsx', 'tsx', 'react', 'typescript-react', 'javascript', 'typescript'].includes(f.language.toLowerCase())
       );
       
-      const cssFiles = files.filter(f => f.language.toLowerCase() === 'css');
+      const cssFiles = previewFiles.filter(f => f.language.toLowerCase() === 'css');
       const styles = cssFiles.map(f => f.content).join('\n\n');
       
       if (jsxFiles.length === 0) {
@@ -195,8 +191,6 @@ const ReactPreview: React.FC<{ files: CodeFile[] }> = ({ files }) => {
       jsxFiles.forEach(file => {
         allImports.push(...extractImports(file.content));
       });
-      setDetectedPackages([...new Set(allImports)]);
-      
       // Sort: components first, then App
       const sortedFiles = [...jsxFiles].sort((a, b) => {
         const aHasApp = /function\s+App|const\s+App\s*=|export\s+default\s+App/.test(a.content);
@@ -273,13 +267,19 @@ const ReactPreview: React.FC<{ files: CodeFile[] }> = ({ files }) => {
         }
       }
       
-      return { code: combinedCode.trim(), styles, imports: [...new Set(allImports)] };
+      return { code: combinedCode.trim(), styles, imports: [...new Set(allImports)], error: '' };
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to bundle';
-      setError(errorMsg);
-      return { code: '', styles: '', imports: [] };
+      return { code: '', styles: '', imports: [] as string[], error: errorMsg };
     }
-  }, [files]);
+  }, [previewFiles]);
+
+  const { error, imports: detectedPackages } = bundledCode;
+
+  // A new build starts with an empty console
+  useEffect(() => {
+    setConsoleLogs([]);
+  }, [bundledCode]);
 
   const srcDoc = useMemo(() => {
     if (error || !bundledCode.code) return '';
@@ -514,8 +514,14 @@ const ReactPreview: React.FC<{ files: CodeFile[] }> = ({ files }) => {
 };
 
 // Code View Component
-const CodeView: React.FC<{ file: { name: string; content: string; language: string } }> = ({ file }) => {
+const CodeView: React.FC<{
+  file: { name: string; content: string; language: string };
+  isEdited: boolean;
+  onChange: (content: string) => void;
+  onReset: () => void;
+}> = ({ file, isEdited, onChange, onReset }) => {
   const [copied, setCopied] = useState(false);
+  const { t } = useLocalization();
 
   const handleCopy = async () => {
     try {
@@ -530,20 +536,33 @@ const CodeView: React.FC<{ file: { name: string; content: string; language: stri
   return (
     <div className="h-full flex flex-col bg-gray-900">
       <div className="sticky top-0 bg-gray-800 px-4 py-2 border-b border-gray-700 text-sm text-gray-400 flex items-center justify-between z-10">
-        <span>{file.name}</span>
-        <button
-          onClick={handleCopy}
-          className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs transition-colors"
-        >
-          {copied ? <><FiCheck size={14} /><span>Copied!</span></> : <><FiCopy size={14} /><span>Copy</span></>}
-        </button>
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="truncate">{file.name}</span>
+          {isEdited && (
+            <span className="px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-300 text-xs">{t('edited')}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {isEdited && (
+            <button
+              onClick={onReset}
+              className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs transition-colors"
+              title={t('resetToOriginal')}
+            >
+              <FiRotateCcw size={14} />
+              <span>{t('reset')}</span>
+            </button>
+          )}
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs transition-colors"
+          >
+            {copied ? <><FiCheck size={14} /><span>Copied!</span></> : <><FiCopy size={14} /><span>Copy</span></>}
+          </button>
+        </div>
       </div>
       
-      <pre className="flex-1 overflow-auto p-4 text-sm">
-        <code className="text-white whitespace-pre-wrap break-words leading-relaxed">
-          {file.content}
-        </code>
-      </pre>
+      <CodeEditor value={file.content} onChange={onChange} ariaLabel={file.name} />
     </div>
   );
 };
@@ -551,24 +570,61 @@ const CodeView: React.FC<{ file: { name: string; content: string; language: stri
 // Main Canvas
 export const ReactPreviewCanvas: React.FC<ReactPreviewCanvasProps> = ({ 
   files, 
+  history = [],
   onClose, 
-  onWidthChange 
+  onWidthChange,
+  onSendEdits,
+  isGenerating = false
 }) => {
-  const [view, setView] = useState<'preview' | 'code'>('code'); // Default ke code view seperti VibeCodingCanvas
+  const [view, setView] = useState<'preview' | 'code' | 'changes'>('code'); // Default ke code view seperti VibeCodingCanvas
   const [activeFileIndex, setActiveFileIndex] = useState(0);
   const [canvasWidth, setCanvasWidth] = useState(50);
   const [isResizing, setIsResizing] = useState(false);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  // Edited content per file index; the preview and diff use the edited version
+  const [edits, setEdits] = useState<Record<number, string>>({});
+  const { t } = useLocalization();
+
+  const editedFiles = useMemo(
+    () => files.map((file, index) => (edits[index] !== undefined ? { ...file, content: edits[index] } : file)),
+    [files, edits]
+  );
+  const dirtyIndexes = files.map((_, index) => index).filter(index => editedFiles[index].content !== files[index].content);
 
   const isReact = isReactCode(files);
 
+  const previousVersions = useMemo(() => files.map(file => findPreviousVersion(file, history)), [files, history]);
+  const hasPreviousVersions = previousVersions.some(Boolean);
+
   const fileList = useMemo(() => {
-    return files.map((file, index) => ({
-      name: getFileName(file, index),
+    return editedFiles.map((file, index) => ({
+      name: getFileName(files[index], index),
       content: file.content,
       language: file.language
     }));
-  }, [files]);
+  }, [files, editedFiles]);
+
+  const handleEdit = (index: number, content: string) => {
+    setEdits(prev => ({ ...prev, [index]: content }));
+  };
+
+  const handleReset = (index: number) => {
+    setEdits(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+  };
+
+  const handleSendEdits = () => {
+    if (!onSendEdits || isGenerating || dirtyIndexes.length === 0) return;
+    onSendEdits(formatEditsMessage(
+      t('canvasEditsMessage'),
+      dirtyIndexes.map(index => ({ name: fileList[index].name, original: files[index].content, edited: fileList[index].content }))
+    ));
+    // The answer to them comes as a new message; this canvas goes back to the code it was opened with
+    setEdits({});
+  };
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -650,9 +706,21 @@ export const ReactPreviewCanvas: React.FC<ReactPreviewCanvasProps> = ({
                 <FiEye size={14} />
                 Preview
               </button>
+              {hasPreviousVersions && (
+                <button
+                  onClick={() => setView('changes')}
+                  className={`px-3 py-1.5 rounded-sm transition-colors flex items-center gap-1.5 ${
+                    view === 'changes' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-600/50'
+                  }`}
+                  title={t('compareWithPrevious')}
+                >
+                  <FiGitPullRequest size={14} />
+                  {t('changes')}
+                </button>
+              )}
             </div>
 
-            {view === 'code' && fileList.length > 1 && (
+            {view !== 'preview' && fileList.length > 1 && (
               <FileDropdown
                 files={fileList}
                 activeIndex={activeFileIndex}
@@ -661,19 +729,47 @@ export const ReactPreviewCanvas: React.FC<ReactPreviewCanvasProps> = ({
             )}
           </div>
 
-          <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded"
-          >
-            <FiX size={20} />
-          </button>
+          <div className="flex items-center gap-2">
+            {onSendEdits && dirtyIndexes.length > 0 && (
+              <button
+                onClick={handleSendEdits}
+                disabled={isGenerating}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md text-xs font-medium transition-colors"
+                title={t('sendEditsToAi')}
+              >
+                <FiSend size={14} />
+                {t('sendEdits')}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded"
+            >
+              <FiX size={20} />
+            </button>
+          </div>
         </div>
 
         <div className="flex-1 overflow-hidden">
           {view === 'preview' ? (
-            <ReactPreview files={files} />
+            <ReactPreview files={editedFiles} />
+          ) : view === 'changes' ? (
+            previousVersions[activeFileIndex] ? (
+              <CodeDiffView
+                fileName={fileList[activeFileIndex].name}
+                previous={previousVersions[activeFileIndex]!.content}
+                current={fileList[activeFileIndex].content}
+              />
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-gray-500">{t('noPreviousVersion')}</div>
+            )
           ) : (
-            <CodeView file={fileList[activeFileIndex]} />
+            <CodeView
+              file={fileList[activeFileIndex]}
+              isEdited={dirtyIndexes.includes(activeFileIndex)}
+              onChange={content => handleEdit(activeFileIndex, content)}
+              onReset={() => handleReset(activeFileIndex)}
+            />
           )}
         </div>
 
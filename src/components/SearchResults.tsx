@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { MessageSender } from '../../types';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { searchMessages, parseSnippet, SearchResult } from '../services/searchService';
+
+interface SearchResultsProps {
+  query: string;
+  onSelect: (result: SearchResult) => void;
+}
+
+// Tunggu user berhenti mengetik sebelum query dikirim
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const SearchResults: React.FC<SearchResultsProps> = ({ query, onSelect }) => {
+  const { t } = useLocalization();
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsSearching(true);
+    setHasError(false);
+
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchMessages(query);
+        if (isCurrent) setResults(found);
+      } catch {
+        if (isCurrent) {
+          setResults([]);
+          setHasError(true);
+        }
+      } finally {
+        if (isCurrent) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  if (isSearching && results.length === 0) {
+    return (
+      <div className="flex items-center justify-center gap-2 px-4 py-6 text-xs text-gray-400">
+        <div className="animate-spin rounded-full h-4 w-4 border-2 border-gray-500 border-t-transparent" />
+        <span>{t('searching')}</span>
+      </div>
+    );
+  }
+
+  if (hasError) {
+    return <p className="px-4 py-6 text-xs text-red-400 text-center">{t('searchFailed')}</p>;
+  }
+
+  if (results.length === 0) {
+    return <p className="px-4 py-6 text-xs text-gray-400 text-center">{t('searchNoResults')}</p>;
+  }
+
+  return (
+    <ul className={`p-2 space-y-1 transition-opacity ${isSearching ? 'opacity-60' : ''}`}>
+      {results.map((result) => (
+        <li key={result.messageId}>
+          <button
+            onClick={() => onSelect(result)}
+            className="w-full text-left px-3 py-2 rounded-md hover:bg-gray-800 transition-colors"
+          >
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate font-medium text-gray-200">{result.conversationTitle}</span>
+              <span className="flex-shrink-0 text-gray-500">
+                {result.sender === MessageSender.User ? t('searchSenderUser') : t('searchSenderAI')}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-gray-400 line-clamp-3 break-words">
+              {parseSnippet(result.snippet).map((part, index) =>
+                part.highlighted ? (
+                  <mark key={index} className="bg-yellow-500/30 text-yellow-200 rounded px-0.5">
+                    {part.text}
+                  </mark>
+                ) : (
+                  <React.Fragment key={index}>{part.text}</React.Fragment>
+                )
+              )}
+            </p>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -1,12 +1,28 @@
-import React, { useState } from 'react';
-import { Conversation } from '../../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Conversation, ConversationChanges, ConversationFolder } from '../../types';
 import { useLocalization } from '../contexts/LocalizationContext';
 import { HiOutlineMenuAlt3, HiTrash } from 'react-icons/hi';
 import { IoClose, IoAddSharp } from 'react-icons/io5';
 import { BsChatDots } from "react-icons/bs";
-import { IoChatbubblesOutline } from "react-icons/io5";
-import { FiSettings } from 'react-icons/fi';
+import {
+  FiSettings,
+  FiWifiOff,
+  FiRefreshCw,
+  FiAlertCircle,
+  FiSearch,
+  FiFolder,
+  FiFolderPlus,
+  FiChevronDown,
+  FiChevronRight,
+  FiEdit2,
+} from 'react-icons/fi';
 import { Modal } from './Modal';
+import { ExportConversationModal } from './ExportConversationModal';
+import { SearchResults } from './SearchResults';
+import { ConversationListItem, CONVERSATION_DRAG_TYPE } from './ConversationListItem';
+import { SyncStatus } from '../services/syncService';
+import { MIN_QUERY_LENGTH, SearchResult } from '../services/searchService';
+import { MAX_FOLDER_NAME_LENGTH } from '../services/folderService';
 
 interface SidebarProps {
   conversations: Conversation[];
@@ -14,6 +30,16 @@ interface SidebarProps {
   onSelectConversation: (id: string) => void;
   onNewConversation: () => void;
   onDeleteConversation: (id: string) => void;
+  onUpdateConversation: (id: string, changes: ConversationChanges) => void;
+  folders: ConversationFolder[];
+  onCreateFolder: (name: string) => void;
+  onRenameFolder: (id: string, name: string) => void;
+  onDeleteFolder: (id: string) => void;
+  onOpenSearchResult: (result: SearchResult) => void;
+  hasMoreConversations?: boolean;
+  isLoadingMoreConversations?: boolean;
+  onLoadMoreConversations?: () => void;
+  syncStatus?: SyncStatus;
   onOpenSettings: () => void;
   isOpen: boolean;
   isCollapsed: boolean;
@@ -27,6 +53,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onSelectConversation,
   onNewConversation,
   onDeleteConversation,
+  onUpdateConversation,
+  folders,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onOpenSearchResult,
+  hasMoreConversations = false,
+  isLoadingMoreConversations = false,
+  onLoadMoreConversations,
+  syncStatus,
   onOpenSettings,
   isOpen,
   isCollapsed,
@@ -35,12 +71,229 @@ export const Sidebar: React.FC<SidebarProps> = ({
 }) => {
   const { t } = useLocalization();
   const [deleteModalState, setDeleteModalState] = useState<{ isOpen: boolean; id: string | null }>({ isOpen: false, id: null });
+  const [exportTarget, setExportTarget] = useState<Conversation | null>(null);
+  const [folderToDelete, setFolderToDelete] = useState<ConversationFolder | null>(null);
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(new Set());
+  const [isArchiveOpen, setArchiveOpen] = useState(false);
+  // null: no folder being edited; 'new': naming a new folder; otherwise the id of the folder being renamed
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  const [folderNameDraft, setFolderNameDraft] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // While a conversation is dragged, empty sections are shown too so it can be dropped there
+  const [isDragging, setIsDragging] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const isSearchActive = !isCollapsed && searchQuery.trim().length >= MIN_QUERY_LENGTH;
+  const navRef = useRef<HTMLElement>(null);
+  const loadMoreRef = useRef<HTMLLIElement>(null);
 
-  const handleDeleteClick = (e: React.MouseEvent, id: string) => {
-    e.stopPropagation();
+  // Infinite scroll: muat halaman berikutnya saat ujung daftar terlihat
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreConversations || isLoadingMoreConversations || !onLoadMoreConversations) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) onLoadMoreConversations();
+      },
+      { root: navRef.current, rootMargin: '0px 0px 200px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreConversations, isLoadingMoreConversations, onLoadMoreConversations, isSearchActive, isCollapsed]);
+
+  // Status sinkronisasi hanya ditampilkan kalau ada yang perlu diketahui user
+  const renderSyncStatus = () => {
+    if (!syncStatus) return null;
+
+    let icon: React.ReactNode;
+    let label: string;
+    let className: string;
+
+    if (!syncStatus.isOnline) {
+      icon = <FiWifiOff />;
+      label = syncStatus.pendingCount > 0
+        ? t('syncOfflinePending', { count: String(syncStatus.pendingCount) })
+        : t('syncOffline');
+      className = 'text-yellow-400';
+    } else if (syncStatus.storageFull && syncStatus.failedCount > 0 && !syncStatus.isSyncing) {
+      icon = <FiAlertCircle />;
+      label = t('syncStorageFull');
+      className = 'text-red-400';
+    } else if (syncStatus.failedCount > 0 && !syncStatus.isSyncing) {
+      icon = <FiAlertCircle />;
+      label = t('syncFailed', { count: String(syncStatus.failedCount) });
+      className = 'text-red-400';
+    } else if (syncStatus.pendingCount > 0) {
+      icon = <FiRefreshCw className={syncStatus.isSyncing ? 'animate-spin' : ''} />;
+      label = t('syncPending', { count: String(syncStatus.pendingCount) });
+      className = 'text-gray-400';
+    } else {
+      return null;
+    }
+
+    return (
+      <div
+        className={`flex items-center gap-2 px-3 py-1 text-xs ${className} ${isCollapsed ? 'justify-center' : ''}`}
+        title={label}
+      >
+        {icon}
+        {!isCollapsed && <span className="truncate">{label}</span>}
+      </div>
+    );
+  };
+
+  const handleDeleteClick = (id: string) => {
     setDeleteModalState({ isOpen: true, id });
   };
-  
+
+  // Dipin di atas, lalu folder, riwayat biasa, dan arsip. Folder yang tidak dikenal
+  // (mis. baru dihapus di perangkat lain) dianggap tanpa folder.
+  const sections = useMemo(() => {
+    const folderIds = new Set(folders.map((f) => f.id));
+    const byNewest = (a: Conversation, b: Conversation) => b.createdAt.localeCompare(a.createdAt);
+    const pinned: Conversation[] = [];
+    const archived: Conversation[] = [];
+    const history: Conversation[] = [];
+    const byFolder = new Map<string, Conversation[]>();
+
+    conversations.forEach((conv) => {
+      if (conv.archivedAt) {
+        archived.push(conv);
+      } else if (conv.pinnedAt) {
+        pinned.push(conv);
+      } else if (conv.folderId && folderIds.has(conv.folderId)) {
+        byFolder.set(conv.folderId, [...(byFolder.get(conv.folderId) || []), conv]);
+      } else {
+        history.push(conv);
+      }
+    });
+
+    pinned.sort((a, b) => (b.pinnedAt ?? '').localeCompare(a.pinnedAt ?? ''));
+    archived.sort(byNewest);
+    byFolder.forEach((list) => list.sort(byNewest));
+    return { pinned, archived, history, byFolder };
+  }, [conversations, folders]);
+
+  // Dropping a conversation on a section moves it there
+  const getDropChanges = (target: string): ConversationChanges => {
+    const now = new Date().toISOString();
+    if (target === 'pinned') return { pinnedAt: now, archivedAt: null };
+    if (target === 'archived') return { archivedAt: now, pinnedAt: null };
+    if (target === 'history') return { folderId: null, pinnedAt: null, archivedAt: null };
+    return { folderId: target.slice('folder:'.length), pinnedAt: null, archivedAt: null };
+  };
+
+  const getDropProps = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(CONVERSATION_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropTarget !== target) setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      const id = e.dataTransfer.getData(CONVERSATION_DRAG_TYPE);
+      if (!id) return;
+      e.preventDefault();
+      e.stopPropagation();
+      // The dragged item moves to another list, so its dragend may never arrive
+      handleDragEnd();
+      onUpdateConversation(id, getDropChanges(target));
+    },
+  });
+
+  const handleDragStart = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(CONVERSATION_DRAG_TYPE)) return;
+    // Changing the layout inside dragstart makes some browsers cancel the drag
+    setTimeout(() => setIsDragging(true));
+  };
+
+  const handleDragEnd = () => {
+    setIsDragging(false);
+    setDropTarget(null);
+  };
+
+  const renderDropHint = () => <p className="px-4 pb-3 text-xs text-gray-500">{t('dropConversationHere')}</p>;
+
+  const getDropZoneClass = (target: string) =>
+    `rounded-md transition-colors ${dropTarget === target ? 'bg-gray-800/60 ring-1 ring-blue-500' : ''}`;
+
+  const toggleFolder = (id: string) => {
+    setCollapsedFolderIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const startFolderEdit = (folder: ConversationFolder | null) => {
+    setEditingFolderId(folder ? folder.id : 'new');
+    setFolderNameDraft(folder?.name ?? '');
+  };
+
+  const commitFolderEdit = () => {
+    const name = folderNameDraft.trim();
+    if (name && editingFolderId === 'new') {
+      onCreateFolder(name);
+    } else if (name && editingFolderId) {
+      const folder = folders.find((f) => f.id === editingFolderId);
+      if (folder && folder.name !== name) onRenameFolder(folder.id, name);
+    }
+    setEditingFolderId(null);
+  };
+
+  const renderFolderNameInput = () => (
+    <input
+      type="text"
+      value={folderNameDraft}
+      onChange={(e) => setFolderNameDraft(e.target.value)}
+      onBlur={commitFolderEdit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitFolderEdit();
+        if (e.key === 'Escape') setEditingFolderId(null);
+      }}
+      maxLength={MAX_FOLDER_NAME_LENGTH}
+      placeholder={t('folderNamePlaceholder')}
+      autoFocus
+      className="w-full bg-gray-800 border border-blue-500 rounded-md px-2 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none"
+    />
+  );
+
+  const renderSectionTitle = (label: string, action?: React.ReactNode) => (
+    <div className="flex items-center justify-between px-4 pt-4 pb-2">
+      <p className="text-xs font-semibold text-gray-400 uppercase">{label}</p>
+      {action}
+    </div>
+  );
+
+  const renderItem = (conv: Conversation) => (
+    <ConversationListItem
+      key={conv.id}
+      conversation={conv}
+      folders={folders}
+      isActive={activeConversationId === conv.id}
+      isCollapsed={isCollapsed}
+      onSelect={handleSelectConv}
+      onUpdate={onUpdateConversation}
+      onExport={setExportTarget}
+      onDelete={handleDeleteClick}
+    />
+  );
+
+  const renderLoadMore = () =>
+    (hasMoreConversations || isLoadingMoreConversations) && (
+      <li ref={loadMoreRef} className="flex justify-center py-3">
+        {isLoadingMoreConversations && (
+          <div className="animate-spin rounded-full h-4 w-4 border-2 border-gray-500 border-t-transparent" />
+        )}
+      </li>
+    );
+
   const confirmDelete = () => {
     if (deleteModalState.id) {
       onDeleteConversation(deleteModalState.id);
@@ -56,6 +309,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
     onClose();
   };
 
+  const handleSearchResultClick = (result: SearchResult) => {
+    if (result.conversationId !== activeConversationId) {
+      window.dispatchEvent(new CustomEvent('conversation-changed', { detail: { conversationId: result.conversationId } }));
+    }
+
+    onOpenSearchResult(result);
+    onClose();
+  };
+
   const handleNewChat = () => {
     // ✅ Emit event untuk close canvas ketika buat chat baru
     window.dispatchEvent(new CustomEvent('canvas-state-change', { detail: { isOpen: false, width: 0, messageId: null } }));
@@ -116,53 +378,131 @@ export const Sidebar: React.FC<SidebarProps> = ({
             <IoAddSharp  />
             {!isCollapsed && <span className="font-medium">{t('newChat')}</span>}
           </button>
-        </div>
-
-        <nav className="flex-1 overflow-y-auto">
           {!isCollapsed && (
-            <p className="px-4 pt-4 pb-2 text-xs font-semibold text-gray-400 uppercase">{t('history')}</p>
+            <div className="relative mt-2">
+              <FiSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setSearchQuery('');
+                }}
+                placeholder={t('searchConversations')}
+                className="w-full bg-gray-800 border border-gray-700 rounded-md pl-9 pr-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
           )}
-          <ul className="p-2 space-y-1">
-            {conversations.map((conv) => (
-              <li key={conv.id} className="group">
-                <button
-                  onClick={() => handleSelectConv(conv.id)}
-                  className={`w-full text-left text-sm px-4 py-2 rounded-md flex items-center gap-2 transition-colors ${
-                    activeConversationId === conv.id ? 'bg-gray-700' : 'hover:bg-gray-800'
-                  }`}
-                  title={isCollapsed ? conv.title : ''}
-                >
-                  {isCollapsed ? (
-                    <IoChatbubblesOutline/>
+        </div>
+
+        <nav ref={navRef} className="flex-1 overflow-y-auto" onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+          {isSearchActive ? (
+            <SearchResults query={searchQuery} onSelect={handleSearchResultClick} />
+          ) : isCollapsed ? (
+            <ul className="p-2 space-y-1">
+              {conversations.filter((conv) => !conv.archivedAt).map(renderItem)}
+              {renderLoadMore()}
+            </ul>
+          ) : (
+            <>
+              {(sections.pinned.length > 0 || isDragging) && (
+                <div {...getDropProps('pinned')} className={getDropZoneClass('pinned')}>
+                  {renderSectionTitle(t('pinnedConversations'))}
+                  {sections.pinned.length > 0 ? (
+                    <ul className="px-2 space-y-1">{sections.pinned.map(renderItem)}</ul>
                   ) : (
-                    <>
-                      <span className="truncate flex-1">{conv.title}</span>
-                      
-                      {/* ✅ FIXED: Ganti button dengan div role="button" */}
-                      <div
-                        onClick={(e) => handleDeleteClick(e, conv.id)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter' || e.key === ' ') {
-                            e.stopPropagation();
-                            handleDeleteClick(e as any, conv.id);
-                          }
-                        }}
-                        role="button"
-                        tabIndex={0}
-                        className="p-1 rounded-full hover:bg-gray-600 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
-                        title={t('delete')}
-                      >
-                        <HiTrash />
-                      </div>
-                    </>
+                    renderDropHint()
                   )}
-                </button>
-              </li>
-            ))}
-          </ul>
+                </div>
+              )}
+
+              <div>
+                {renderSectionTitle(
+                  t('folders'),
+                  <button
+                    onClick={() => startFolderEdit(null)}
+                    className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                    title={t('newFolder')}
+                  >
+                    <FiFolderPlus />
+                  </button>
+                )}
+                <ul className="px-2 space-y-1">
+                  {editingFolderId === 'new' && <li>{renderFolderNameInput()}</li>}
+                  {folders.map((folder) => {
+                    const folderConversations = sections.byFolder.get(folder.id) || [];
+                    const isExpanded = !collapsedFolderIds.has(folder.id);
+                    const target = `folder:${folder.id}`;
+
+                    return (
+                      <li key={folder.id} {...getDropProps(target)} className={getDropZoneClass(target)}>
+                        {editingFolderId === folder.id ? (
+                          renderFolderNameInput()
+                        ) : (
+                          <div className="group flex items-center rounded-md hover:bg-gray-800">
+                            <button
+                              onClick={() => toggleFolder(folder.id)}
+                              className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-sm text-gray-300"
+                              aria-expanded={isExpanded}
+                            >
+                              {isExpanded ? <FiChevronDown className="flex-shrink-0" /> : <FiChevronRight className="flex-shrink-0" />}
+                              <FiFolder className="flex-shrink-0" />
+                              <span className="truncate">{folder.name}</span>
+                              <span className="text-xs text-gray-500">{folderConversations.length}</span>
+                            </button>
+                            <button
+                              onClick={() => startFolderEdit(folder)}
+                              className="p-1 rounded-full hover:bg-gray-600 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                              title={t('renameFolder')}
+                            >
+                              <FiEdit2 />
+                            </button>
+                            <button
+                              onClick={() => setFolderToDelete(folder)}
+                              className="mr-2 p-1 rounded-full hover:bg-gray-600 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                              title={t('deleteFolder')}
+                            >
+                              <HiTrash />
+                            </button>
+                          </div>
+                        )}
+                        {isExpanded && folderConversations.length > 0 && (
+                          <ul className="pl-4 space-y-1">{folderConversations.map(renderItem)}</ul>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+
+              <div {...getDropProps('history')} className={getDropZoneClass('history')}>
+                {renderSectionTitle(t('history'))}
+                <ul className="px-2 pb-2 space-y-1">
+                  {sections.history.map(renderItem)}
+                  {renderLoadMore()}
+                </ul>
+              </div>
+
+              {(sections.archived.length > 0 || isDragging) && (
+                <div {...getDropProps('archived')} className={getDropZoneClass('archived')}>
+                  <button
+                    onClick={() => setArchiveOpen((open) => !open)}
+                    className="w-full flex items-center gap-2 px-4 pt-4 pb-2 text-xs font-semibold text-gray-400 uppercase hover:text-gray-300"
+                    aria-expanded={isArchiveOpen}
+                  >
+                    {isArchiveOpen ? <FiChevronDown /> : <FiChevronRight />}
+                    {t('archivedConversations', { count: String(sections.archived.length) })}
+                  </button>
+                  {isArchiveOpen && <ul className="px-2 pb-2 space-y-1">{sections.archived.map(renderItem)}</ul>}
+                  {sections.archived.length === 0 && renderDropHint()}
+                </div>
+              )}
+            </>
+          )}
         </nav>
 
         <div className="p-2 border-t border-gray-700/50 space-y-2">
+          {renderSyncStatus()}
           <button
             onClick={handleSettings}
             className={`w-full flex items-center gap-3 text-sm px-3 py-2 text-gray-300 rounded-md hover:bg-gray-700 transition-colors ${
@@ -188,6 +528,22 @@ export const Sidebar: React.FC<SidebarProps> = ({
       >
         <p>{t('deleteSingleConversationDescription')}</p>
       </Modal>
+
+      <Modal
+        isOpen={folderToDelete !== null}
+        onClose={() => setFolderToDelete(null)}
+        onConfirm={() => {
+          if (folderToDelete) onDeleteFolder(folderToDelete.id);
+          setFolderToDelete(null);
+        }}
+        title={t('deleteFolderTitle')}
+        confirmText={t('delete')}
+        isDestructive
+      >
+        <p>{t('deleteFolderDescription', { name: folderToDelete?.name ?? '' })}</p>
+      </Modal>
+
+      <ExportConversationModal conversation={exportTarget} onClose={() => setExportTarget(null)} />
     </>
   );
 };
\ No newline at end of file
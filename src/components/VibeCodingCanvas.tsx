@@ -1,16 +1,20 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { FiCode, FiEye, FiX, FiChevronDown, FiCopy, FiCheck, FiPlay, FiLoader, FiAlertCircle, FiInfo, FiEyeOff } from 'react-icons/fi';
+import { FiCode, FiEye, FiX, FiChevronDown, FiCopy, FiCheck, FiPlay, FiLoader, FiAlertCircle, FiInfo, FiEyeOff, FiGitPullRequest, FiRotateCcw, FiSend } from 'react-icons/fi';
 import { useLocalization } from '../contexts/LocalizationContext';
-
-interface CodeFile {
-  language: string;
-  content: string;
-}
+import { CodeDiffView } from './CodeDiffView';
+import { CodeEditor } from './CodeEditor';
+import { CodeFile, findPreviousVersion, formatEditsMessage } from '../services/codeFiles';
 
 interface VibeCodingCanvasProps {
   files: CodeFile[];
+  // Files of earlier answers in the conversation, oldest first
+  history?: CodeFile[][];
   onClose: () => void;
   onWidthChange?: (width: number) => void;
+  // Sends the user's edits back to the AI as a new message
+  onSendEdits?: (message: string) => void;
+  // A reply is being generated; edits can't be sent until it is done
+  isGenerating?: boolean;
 }
 
 const SUPPORTED_LANGUAGES = {
@@ -413,7 +417,12 @@ const FileDropdown: React.FC<{
 };
 
 // Code View Component
-const CodeView: React.FC<{ file: { name: string; content: string } }> = ({ file }) => {
+const CodeView: React.FC<{
+  file: { name: string; content: string };
+  isEdited: boolean;
+  onChange: (content: string) => void;
+  onReset: () => void;
+}> = ({ file, isEdited, onChange, onReset }) => {
   const [copied, setCopied] = useState(false);
   const { t } = useLocalization();
 
@@ -428,63 +437,93 @@ const CodeView: React.FC<{ file: { name: string; content: string } }> = ({ file
   };
 
   return (
-    <div className="h-full overflow-auto bg-gray-900 flex flex-col">
+    <div className="h-full overflow-hidden bg-gray-900 flex flex-col">
       <div className="sticky top-0 bg-gray-800 px-4 py-2 border-b border-gray-700 text-sm text-gray-400 flex items-center justify-between z-10">
-        <span>{file.name}</span>
-        <button
-          onClick={handleCopy}
-          className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs transition-colors"
-          title={t('copy_code') || 'Copy code'}
-        >
-          {copied ? (
-            <>
-              <FiCheck size={14} />
-              <span>{t('copied') || 'Copied!'}</span>
-            </>
-          ) : (
-            <>
-              <FiCopy size={14} />
-              <span>{t('copy') || 'Copy'}</span>
-            </>
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="truncate">{file.name}</span>
+          {isEdited && (
+            <span className="px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-300 text-xs">{t('edited')}</span>
           )}
-        </button>
+        </div>
+        <div className="flex items-center gap-2">
+          {isEdited && (
+            <button
+              onClick={onReset}
+              className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs transition-colors"
+              title={t('resetToOriginal')}
+            >
+              <FiRotateCcw size={14} />
+              <span>{t('reset')}</span>
+            </button>
+          )}
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs transition-colors"
+            title={t('copy_code') || 'Copy code'}
+          >
+            {copied ? (
+              <>
+                <FiCheck size={14} />
+                <span>{t('copied') || 'Copied!'}</span>
+              </>
+            ) : (
+              <>
+                <FiCopy size={14} />
+                <span>{t('copy') || 'Copy'}</span>
+              </>
+            )}
+          </button>
+        </div>
       </div>
-      <pre className="p-4 text-sm flex-1">
-        <code className="text-white whitespace-pre-wrap break-words">{file.content}</code>
-      </pre>
+      <CodeEditor value={file.content} onChange={onChange} ariaLabel={file.name} />
     </div>
   );
 };
 
 // Main Canvas Component
-export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({ files, onClose, onWidthChange }) => {
-  const [view, setView] = useState<'execute' | 'code'>('code'); // Default ke code view
+export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({
+  files,
+  history = [],
+  onClose,
+  onWidthChange,
+  onSendEdits,
+  isGenerating = false,
+}) => {
+  const [view, setView] = useState<'execute' | 'code' | 'changes'>('code'); // Default ke code view
   const [activeFileIndex, setActiveFileIndex] = useState(0);
   const [canvasWidth, setCanvasWidth] = useState(50);
   const [isResizing, setIsResizing] = useState(false);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  // Edited content per file index; preview, run and diff all use the edited version
+  const [edits, setEdits] = useState<Record<number, string>>({});
   const { t } = useLocalization();
 
+  const editedFiles = useMemo(
+    () => files.map((file, index) => (edits[index] !== undefined ? { ...file, content: edits[index] } : file)),
+    [files, edits]
+  );
+  const dirtyIndexes = files.map((_, index) => index).filter(index => editedFiles[index].content !== files[index].content);
+
   // Gabungkan files berdasarkan tipe untuk HTML preview
   const mergedCode = useMemo(() => {
-    const html = files.find(f => 
+    const html = editedFiles.find(f => 
       f.language.toLowerCase() === 'html'
     )?.content || '';
     
-    const css = files.find(f => 
+    const css = editedFiles.find(f => 
       f.language.toLowerCase() === 'css'
     )?.content || '';
     
-    const js = files.find(f => 
+    const js = editedFiles.find(f => 
       ['javascript', 'js'].includes(f.language.toLowerCase())
     )?.content || '';
     
     return { html, css, js };
-  }, [files]);
+  }, [editedFiles]);
 
   // Prepare file list for display
   const fileList = useMemo(() => {
-    return files.map((file, index) => {
+    return editedFiles.map((file, index) => {
       const lang = file.language.toLowerCase();
       let name = '';
       
@@ -511,7 +550,7 @@ export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({ files, onClo
         language: file.language
       };
     });
-  }, [files]);
+  }, [editedFiles]);
 
   // Check if HTML preview is available
   const hasHtmlPreview = useMemo(() => {
@@ -533,6 +572,9 @@ export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({ files, onClo
   // Determine if we can show execute view
   const canShowExecuteView = hasHtmlPreview || canExecuteCode;
 
+  const previousVersions = useMemo(() => files.map(file => findPreviousVersion(file, history)), [files, history]);
+  const hasPreviousVersions = previousVersions.some(Boolean);
+
   // Handle resize
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -573,6 +615,37 @@ export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({ files, onClo
     setIsResizing(true);
   };
 
+  const handleEdit = (index: number, content: string) => {
+    setEdits(prev => ({ ...prev, [index]: content }));
+  };
+
+  const handleReset = (index: number) => {
+    setEdits(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+  };
+
+  const handleSendEdits = () => {
+    if (!onSendEdits || isGenerating || dirtyIndexes.length === 0) return;
+    onSendEdits(formatEditsMessage(
+      t('canvasEditsMessage'),
+      dirtyIndexes.map(index => ({ name: fileList[index].name, original: files[index].content, edited: fileList[index].content }))
+    ));
+    // The answer to them comes as a new message; this canvas goes back to the code it was opened with
+    setEdits({});
+  };
+
+  const renderCodeView = () => (
+    <CodeView
+      file={fileList[activeFileIndex]}
+      isEdited={dirtyIndexes.includes(activeFileIndex)}
+      onChange={content => handleEdit(activeFileIndex, content)}
+      onReset={() => handleReset(activeFileIndex)}
+    />
+  );
+
   // Get button label based on content type
   const getExecuteButtonLabel = () => {
     if (hasHtmlPreview) return 'Preview';
@@ -621,7 +694,7 @@ export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({ files, onClo
         <div className="bg-gray-800 px-4 py-3 border-b border-gray-700 flex items-center justify-between flex-shrink-0">
           <div className="flex items-center gap-3">
             {/* View Toggle */}
-            {canShowExecuteView && (
+            {(canShowExecuteView || hasPreviousVersions) && (
               <div className="flex items-center text-xs text-gray-400 rounded-md p-0.5 bg-gray-700">
                 <button
                   onClick={() => setView('code')}
@@ -633,29 +706,43 @@ export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({ files, onClo
                   <FiCode size={14} />
                   {t('code')}
                 </button>
-                <button
-                  onClick={() => setView('execute')}
-                  className={`px-3 py-1.5 rounded-sm transition-colors flex items-center gap-1.5 ${
-                    view === 'execute' ? 'bg-gray-600 text-white' : 'hover:bg-gray-600/50'
-                  }`}
-                >
-                  {hasHtmlPreview ? (
-                    <>
-                      <FiEye size={14} />
-                      {t('preview')}
-                    </>
-                  ) : (
-                    <>
-                      <FiPlay size={14} />
-                      Run
-                    </>
-                  )}
-                </button>
+                {canShowExecuteView && (
+                  <button
+                    onClick={() => setView('execute')}
+                    className={`px-3 py-1.5 rounded-sm transition-colors flex items-center gap-1.5 ${
+                      view === 'execute' ? 'bg-gray-600 text-white' : 'hover:bg-gray-600/50'
+                    }`}
+                  >
+                    {hasHtmlPreview ? (
+                      <>
+                        <FiEye size={14} />
+                        {t('preview')}
+                      </>
+                    ) : (
+                      <>
+                        <FiPlay size={14} />
+                        Run
+                      </>
+                    )}
+                  </button>
+                )}
+                {hasPreviousVersions && (
+                  <button
+                    onClick={() => setView('changes')}
+                    className={`px-3 py-1.5 rounded-sm transition-colors flex items-center gap-1.5 ${
+                      view === 'changes' ? 'bg-gray-600 text-white' : 'hover:bg-gray-600/50'
+                    }`}
+                    title={t('compareWithPrevious')}
+                  >
+                    <FiGitPullRequest size={14} />
+                    {t('changes')}
+                  </button>
+                )}
               </div>
             )}
 
-            {/* File Dropdown - Show only in code view and if multiple files */}
-            {view === 'code' && fileList.length > 1 && (
+            {/* File Dropdown - Show only in code/changes view and if multiple files */}
+            {view !== 'execute' && fileList.length > 1 && (
               <FileDropdown
                 files={fileList}
                 activeIndex={activeFileIndex}
@@ -664,14 +751,28 @@ export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({ files, onClo
             )}
           </div>
 
-          {/* Close Button */}
-          <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-white transition-colors p-1"
-            title={t('close')}
-          >
-            <FiX size={20} />
-          </button>
+          <div className="flex items-center gap-2">
+            {onSendEdits && dirtyIndexes.length > 0 && (
+              <button
+                onClick={handleSendEdits}
+                disabled={isGenerating}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md text-xs font-medium transition-colors"
+                title={t('sendEditsToAi')}
+              >
+                <FiSend size={14} />
+                {t('sendEdits')}
+              </button>
+            )}
+
+            {/* Close Button */}
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors p-1"
+              title={t('close')}
+            >
+              <FiX size={20} />
+            </button>
+          </div>
         </div>
 
         {/* Content */}
@@ -690,10 +791,20 @@ export const VibeCodingCanvas: React.FC<VibeCodingCanvasProps> = ({ files, onClo
                   allFiles={fileList}
                 />
               ) : (
-                <CodeView file={fileList[activeFileIndex]} />
+                renderCodeView()
+              )
+            ) : view === 'changes' ? (
+              previousVersions[activeFileIndex] ? (
+                <CodeDiffView
+                  fileName={fileList[activeFileIndex].name}
+                  previous={previousVersions[activeFileIndex]!.content}
+                  current={fileList[activeFileIndex].content}
+                />
+              ) : (
+                <div className="h-full flex items-center justify-center text-sm text-gray-500">{t('noPreviousVersion')}</div>
               )
             ) : (
-              <CodeView file={fileList[activeFileIndex]} />
+              renderCodeView()
             )}
           </div>
         </div>
@@ -0,0 +1,210 @@
+// src/components/settings/AIProviderSettings.tsx
+
+import React, { useState, useEffect } from 'react';
+import { useLocalization } from '../../contexts/LocalizationContext';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  getAIProviderSettings,
+  saveAIProviderSettings,
+  clearAIProviderSettings,
+  DEFAULT_AI_PROVIDER_SETTINGS,
+  TIMEOUT_SECONDS_RANGE,
+  MAX_RETRIES_RANGE,
+} from '../../services/aiProviderSettings';
+import { AIProviderId, AIProviderSettings as ProviderSettings, DEFAULT_N8N_WEBHOOK_URL } from '../../services/providers';
+import { ProfileSkeleton } from './SettingsSkeletons';
+
+export const AIProviderSettings: React.FC = () => {
+  const { t } = useLocalization();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [settings, setSettings] = useState<ProviderSettings>(DEFAULT_AI_PROVIDER_SETTINGS);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setUserId(user.id);
+      setSettings(getAIProviderSettings(user.id));
+    } catch (error) {
+      console.error('Error loading AI provider settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateField = <K extends keyof ProviderSettings>(field: K, value: ProviderSettings[K]) => {
+    setSettings(prev => ({ ...prev, [field]: value }));
+    setSaveSuccess(false);
+  };
+
+  const handleSave = () => {
+    if (!userId) return;
+    saveAIProviderSettings(userId, { ...settings, endpoint: settings.endpoint.trim() });
+    setSaveSuccess(true);
+    setTimeout(() => setSaveSuccess(false), 3000);
+  };
+
+  const handleReset = () => {
+    if (!userId) return;
+    clearAIProviderSettings(userId);
+    setSettings(DEFAULT_AI_PROVIDER_SETTINGS);
+  };
+
+  const providerOptions: { id: AIProviderId; label: string; description: string }[] = [
+    { id: 'n8n', label: 'n8n Webhook', description: t('providerN8nDescription') },
+    { id: 'openai', label: t('providerOpenAiLabel'), description: t('providerOpenAiDescription') },
+    ...(import.meta.env.DEV
+      ? [{ id: 'mock' as const, label: t('providerMockLabel'), description: t('providerMockDescription') }]
+      : []),
+  ];
+
+  const isSaveDisabled = settings.provider === 'openai' && !settings.endpoint.trim();
+
+  const inputClassName = "w-full bg-gray-900 border border-gray-700 rounded-md shadow-sm py-2.5 px-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm";
+
+  return (
+    <div className="space-y-6">
+      <div className="p-6 bg-gray-800 border border-gray-700 rounded-lg">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-white">{t('aiProviderTitle')}</h3>
+        </div>
+        <p className="text-sm text-gray-400 mb-6">{t('aiProviderDescription')}</p>
+
+        {isLoading ? (
+          <ProfileSkeleton />
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {providerOptions.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => updateField('provider', option.id)}
+                  className={`p-4 rounded-lg border text-left transition-colors ${
+                    settings.provider === option.id
+                      ? 'border-blue-500 bg-blue-600/10'
+                      : 'border-gray-700 bg-gray-900 hover:border-gray-600'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-white">{option.label}</p>
+                  <p className="text-xs text-gray-400 mt-1">{option.description}</p>
+                </button>
+              ))}
+            </div>
+
+            {settings.provider !== 'mock' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  {settings.provider === 'n8n' ? t('webhookUrl') : t('endpointUrl')}
+                </label>
+                <input
+                  type="url"
+                  value={settings.endpoint}
+                  onChange={(e) => updateField('endpoint', e.target.value)}
+                  placeholder={settings.provider === 'n8n' ? DEFAULT_N8N_WEBHOOK_URL : 'http://localhost:4000/v1'}
+                  className={inputClassName}
+                />
+                {settings.provider === 'n8n' && (
+                  <p className="text-xs text-gray-500 mt-1">{t('webhookUrlHint')}</p>
+                )}
+              </div>
+            )}
+
+            {settings.provider !== 'mock' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {t('requestTimeout')}
+                  </label>
+                  <input
+                    type="number"
+                    min={TIMEOUT_SECONDS_RANGE.min}
+                    max={TIMEOUT_SECONDS_RANGE.max}
+                    value={settings.timeoutSeconds}
+                    onChange={(e) => updateField('timeoutSeconds', Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('requestTimeoutHint')}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {t('maxRetries')}
+                  </label>
+                  <input
+                    type="number"
+                    min={MAX_RETRIES_RANGE.min}
+                    max={MAX_RETRIES_RANGE.max}
+                    value={settings.maxRetries}
+                    onChange={(e) => updateField('maxRetries', Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('maxRetriesHint')}</p>
+                </div>
+              </div>
+            )}
+
+            {settings.provider === 'openai' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {t('model')}
+                  </label>
+                  <input
+                    type="text"
+                    value={settings.model}
+                    onChange={(e) => updateField('model', e.target.value)}
+                    placeholder="gpt-4o-mini"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {t('apiKey')}
+                  </label>
+                  <input
+                    type="password"
+                    value={settings.apiKey}
+                    onChange={(e) => updateField('apiKey', e.target.value)}
+                    placeholder="sk-..."
+                    autoComplete="off"
+                    className={inputClassName}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('apiKeyHint')}</p>
+                </div>
+              </div>
+            )}
+
+            {saveSuccess && (
+              <div className="p-3 bg-green-600/20 border border-green-500/50 rounded-md">
+                <p className="text-sm text-green-400">✓ {t('aiProviderSaved')}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={handleReset}
+                className="px-6 py-2.5 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-md transition-colors"
+              >
+                {t('resetToDefault')}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaveDisabled}
+                className="px-6 py-2.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm font-medium rounded-md transition-colors"
+              >
+                {t('saveChanges')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+// src/components/settings/DownloadAccountData.tsx
+
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiArchive } from 'react-icons/fi';
+import { useLocalization } from '../../contexts/LocalizationContext';
+import { formatBytes } from '../../services/storageutils';
+import { exportAccountData, DataExportProgress, DataExportStage } from '../../services/dataExportService';
+
+const STAGE_KEYS: Record<DataExportStage, string> = {
+  account: 'dataExportStageAccount',
+  conversations: 'dataExportStageConversations',
+  packaging: 'dataExportStagePackaging',
+};
+
+export const DownloadAccountData: React.FC = () => {
+  const { t } = useLocalization();
+  const [progress, setProgress] = useState<DataExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    if (progress) return;
+
+    setProgress({ stage: 'account', done: 0, total: 1 });
+    setError(null);
+    try {
+      const result = await exportAccountData(setProgress);
+      toast.success(
+        t('dataExportSucceeded', {
+          count: String(result.conversationCount),
+          size: formatBytes(result.sizeBytes),
+        })
+      );
+    } catch {
+      setError(t('dataExportFailed'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const percentage = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="p-6 bg-gray-800 border border-gray-700 rounded-lg">
+      <div className="mb-2">
+        <h3 className="text-lg font-semibold text-white">{t('downloadMyData')}</h3>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">{t('downloadMyDataDescription')}</p>
+
+      {progress ? (
+        <div>
+          <div className="flex justify-between text-xs mb-2">
+            <span className="text-gray-400">{t(STAGE_KEYS[progress.stage])}</span>
+            {progress.stage === 'conversations' && (
+              <span className="text-gray-300">
+                {progress.done} / {progress.total}
+              </span>
+            )}
+          </div>
+          <div className="w-full bg-gray-700 rounded-full h-2.5 overflow-hidden">
+            <div
+              className="h-2.5 rounded-full bg-blue-500 transition-all duration-300"
+              style={{ width: `${percentage}%` }}
+            ></div>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleDownload}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-md transition-colors"
+        >
+          <FiArchive />
+          {t('downloadMyData')}
+        </button>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -4,11 +4,17 @@ import React, { useState, useEffect } from 'react';
 import { useLocalization } from '../../contexts/LocalizationContext';
 import { supabase } from '../../lib/supabaseClient';
 import { ProfileSkeleton } from './SettingsSkeletons';
+import { invalidateUserProfileCache } from '../../services/userProfileService';
+
+const NICKNAME_MAX_LENGTH = 50;
+const PREFERENCES_MAX_LENGTH = 1500;
 
 interface UserProfile {
   id: string;
   email: string;
   full_name: string | null;
+  nickname: string | null;
+  preferences: string | null;
   avatar_url: string | null;
   provider: string | null;
   created_at: string;
@@ -52,6 +58,8 @@ export const GeneralSettings: React.FC = () => {
 
       setUserProfile(profile);
       setFullName(profile.full_name || '');
+      setNickname(profile.nickname || '');
+      setPreferences(profile.preferences || '');
     } catch (error) {
       console.error('Error loading user profile:', error);
     } finally {
@@ -71,13 +79,17 @@ export const GeneralSettings: React.FC = () => {
         .from('user_profiles')
         .update({
           full_name: fullName || null,
+          nickname: nickname.trim() || null,
+          preferences: preferences.trim() || null,
           updated_at: new Date().toISOString(),
         })
         .eq('id', user.id);
 
       if (error) throw error;
 
-      setUserProfile(prev => prev ? { ...prev, full_name: fullName } : null);
+      setUserProfile(prev => prev ? { ...prev, full_name: fullName, nickname, preferences } : null);
+      // The next AI request should already use the new profile
+      invalidateUserProfileCache();
       
       setSaveSuccess(true);
       setTimeout(() => setSaveSuccess(false), 3000);
@@ -151,10 +163,11 @@ export const GeneralSettings: React.FC = () => {
                   type="text"
                   value={nickname}
                   onChange={(e) => setNickname(e.target.value)}
+                  maxLength={NICKNAME_MAX_LENGTH}
                   placeholder={t('nicknamePlaceholder')}
                   className="w-full bg-gray-900 border border-gray-700 rounded-md shadow-sm py-2.5 px-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm" 
                 />
-                <p className="text-xs text-gray-500 mt-1">{t('comingSoon')}</p>
+                <p className="text-xs text-gray-500 mt-1">{t('nicknameHint')}</p>
               </div>
             </div>
 
@@ -166,10 +179,14 @@ export const GeneralSettings: React.FC = () => {
                 rows={4}
                 value={preferences}
                 onChange={(e) => setPreferences(e.target.value)}
+                maxLength={PREFERENCES_MAX_LENGTH}
                 placeholder={t('generalPreferencesPlaceholder')} 
                 className="w-full bg-gray-900 border border-gray-700 rounded-md shadow-sm py-2.5 px-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm resize-none"
               />
-              <p className="text-xs text-gray-500 mt-1">{t('comingSoon')}</p>
+              <div className="flex justify-between gap-4 mt-1">
+                <p className="text-xs text-gray-500">{t('preferencesHint')}</p>
+                <p className="text-xs text-gray-500 flex-shrink-0">{preferences.length}/{PREFERENCES_MAX_LENGTH}</p>
+              </div>
             </div>
 
             {saveSuccess && (
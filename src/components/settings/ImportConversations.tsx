@@ -0,0 +1,214 @@
+// src/components/settings/ImportConversations.tsx
+
+import React, { useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiUpload } from 'react-icons/fi';
+import { useLocalization } from '../../contexts/LocalizationContext';
+import { formatBytes } from '../../services/storageutils';
+import {
+  previewImport,
+  importConversations,
+  ImportError,
+  ImportErrorKind,
+  ImportPreview,
+} from '../../services/importService';
+
+interface ImportConversationsProps {
+  // Called after conversations were saved, e.g. to refresh the storage usage
+  onImported: () => void;
+}
+
+const ERROR_KEYS: Record<ImportErrorKind, string> = {
+  'too-large': 'importErrorTooLarge',
+  'invalid-json': 'importErrorInvalidJson',
+  'no-conversations': 'importErrorNoConversations',
+  quota: 'importErrorQuota',
+};
+
+const SOURCE_KEYS: Record<ImportPreview['source'], string> = {
+  syrion: 'importSourceSyrion',
+  chatgpt: 'importSourceChatGpt',
+  markdown: 'importSourceMarkdown',
+};
+
+export const ImportConversations: React.FC<ImportConversationsProps> = ({ onImported }) => {
+  const { t } = useLocalization();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const describeError = (err: unknown) =>
+    err instanceof ImportError ? t(ERROR_KEYS[err.kind]) : t('importErrorGeneric');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    setPreview(null);
+    try {
+      const result = await previewImport(file);
+      setPreview(result);
+      setSelectedIds(new Set(result.candidates.filter((c) => !c.isDuplicate).map((c) => c.conversation.id)));
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Duplicates (already stored, or repeated in the file) are never imported
+  const selected = preview ? preview.candidates.filter((c) => !c.isDuplicate && selectedIds.has(c.conversation.id)) : [];
+  const selectedBytes = selected.reduce((sum, c) => sum + c.estimatedBytes, 0);
+  const exceedsQuota = preview !== null && selectedBytes > preview.availableBytes;
+  const duplicateCount = preview ? preview.candidates.filter((c) => c.isDuplicate).length : 0;
+
+  const handleImport = async () => {
+    if (selected.length === 0 || exceedsQuota || progress) return;
+
+    setProgress({ done: 0, total: selected.length });
+    setError(null);
+    try {
+      const result = await importConversations(
+        selected.map((c) => c.conversation),
+        (done, total) => setProgress({ done, total })
+      );
+
+      if (result.imported.length > 0) {
+        window.dispatchEvent(
+          new CustomEvent('conversations-imported', { detail: { conversations: result.imported } })
+        );
+        toast.success(t('importSucceeded', { count: String(result.imported.length) }));
+      }
+      if (result.failedCount > 0) {
+        toast.error(t('importPartiallyFailed', { count: String(result.failedCount) }));
+      }
+
+      setPreview(null);
+      onImported();
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-gray-800 border border-gray-700 rounded-lg">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">{t('importConversations')}</h3>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">{t('importDescription')}</p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.md,.markdown,.txt,application/json,text/markdown,text/plain"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      {!preview && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isReading}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gray-900 border border-dashed border-gray-600 hover:border-blue-500 text-gray-300 text-sm font-medium rounded-md transition-colors disabled:opacity-60"
+        >
+          {isReading ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-gray-400 border-t-transparent" />
+          ) : (
+            <FiUpload />
+          )}
+          {isReading ? t('importReading') : t('importChooseFile')}
+        </button>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+      {preview && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+            <span>{t(SOURCE_KEYS[preview.source])}</span>
+            <span>{t('importFoundCount', { count: String(preview.candidates.length) })}</span>
+            {duplicateCount > 0 && <span>{t('importDuplicateCount', { count: String(duplicateCount) })}</span>}
+            {preview.invalidCount > 0 && (
+              <span className="text-yellow-400">{t('importInvalidCount', { count: String(preview.invalidCount) })}</span>
+            )}
+          </div>
+
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-700/50 bg-gray-900 border border-gray-700 rounded-md">
+            {preview.candidates.map(({ conversation, isDuplicate }, index) => (
+              <li key={`${conversation.id}-${index}`}>
+                <label
+                  className={`flex items-center gap-3 px-3 py-2 text-sm ${
+                    isDuplicate ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-800/60'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={!isDuplicate && selectedIds.has(conversation.id)}
+                    disabled={isDuplicate || progress !== null}
+                    onChange={() => toggleSelected(conversation.id)}
+                    className="rounded border-gray-600 bg-gray-800 text-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate text-white">{conversation.title}</span>
+                    <span className="block text-xs text-gray-500">
+                      {new Date(conversation.createdAt).toLocaleDateString()} ·{' '}
+                      {t('importMessageCount', { count: String(conversation.messages.length) })}
+                      {isDuplicate && ` · ${t('importAlreadyExists')}`}
+                    </span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-500">{t('importEstimatedSize')}:</span>
+            <span className={exceedsQuota ? 'text-red-400' : 'text-gray-300'}>
+              {formatBytes(selectedBytes)} / {formatBytes(preview.availableBytes)} {t('available').toLowerCase()}
+            </span>
+          </div>
+          {exceedsQuota && <p className="text-sm text-red-400">{t('importErrorQuota')}</p>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setPreview(null)}
+              disabled={progress !== null}
+              className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors disabled:opacity-60"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={selected.length === 0 || exceedsQuota || progress !== null}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {progress && (
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
+              )}
+              {progress
+                ? t('importProgress', { done: String(progress.done), total: String(progress.total) })
+                : t('importSelected', { count: String(selected.length) })}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
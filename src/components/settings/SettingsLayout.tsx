@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import { useLocalization } from '../../contexts/LocalizationContext';
 import { Modal } from '../Modal';
 import { GeneralSettings } from './GeneralSettings';
+import { AIProviderSettings } from './AIProviderSettings';
 import { AccountSettings } from './AccountSettings';
 import { BillingSettings } from './BillingSettings';
 import { StorageSettings } from './StorageSettings';
@@ -18,7 +19,7 @@ interface SettingsLayoutProps {
   initialTab?: SettingsTab;
 }
 
-export type SettingsTab = 'general' | 'account' | 'billing' | 'storage' | 'language' | 'about' | 'logout';
+export type SettingsTab = 'general' | 'ai' | 'account' | 'billing' | 'storage' | 'language' | 'about' | 'logout';
 
 export const SettingsLayout: React.FC<SettingsLayoutProps> = ({ 
   onClose, 
@@ -53,6 +54,8 @@ export const SettingsLayout: React.FC<SettingsLayoutProps> = ({
     switch (activeTab) {
       case 'general':
         return <GeneralSettings />;
+      case 'ai':
+        return <AIProviderSettings />;
       case 'account':
         return <AccountSettings />;
       case 'billing':
@@ -102,6 +105,7 @@ export const SettingsLayout: React.FC<SettingsLayoutProps> = ({
           <aside className="flex-shrink-0 bg-gray-900 md:p-4 border-b md:border-r md:border-b-0 border-gray-700/50 md:w-64 overflow-y-auto scrollbar-hide">
             <nav className="flex flex-row md:flex-col md:space-y-1 overflow-x-auto scrollbar-hide md:overflow-x-visible px-4 md:px-0 -mx-4 md:mx-0">
               <NavItem tab="general" label={t('settingsGeneral')} />
+              <NavItem tab="ai" label={t('settingsAIProvider')} />
               <NavItem tab="account" label={t('settingsAccount')} />
               <NavItem tab="billing" label={t('settingsBilling')} />
               <NavItem tab="storage" label={t('settingsStorage')} />
@@ -3,16 +3,28 @@
 import React, { useState, useEffect } from 'react';
 import { useLocalization } from '../../contexts/LocalizationContext';
 import { getStorageStats, formatBytes, getStorageColor, StorageStats } from '../../services/storageutils';
+import { getConversationStorage, ConversationStorage } from '../../services/supabaseStorageService';
 import { StorageSkeleton } from './SettingsSkeletons';
+import { ImportConversations } from './ImportConversations';
+import { DownloadAccountData } from './DownloadAccountData';
 
 interface StorageSettingsProps {
   onDelete: () => void;
 }
 
+const LARGEST_CONVERSATIONS_COUNT = 5;
+
+const PLAN_KEYS: Record<string, string> = {
+  free: 'freePlan',
+  demo: 'demoPlan',
+  pro: 'proPlan',
+};
+
 export const StorageSettings: React.FC<StorageSettingsProps> = ({ onDelete }) => {
   const { t } = useLocalization();
   const [storageStats, setStorageStats] = useState<StorageStats | null>(null);
   const [isLoadingStats, setIsLoadingStats] = useState(false);
+  const [largestConversations, setLargestConversations] = useState<ConversationStorage[]>([]);
 
   useEffect(() => {
     loadStorageStats();
@@ -21,8 +33,13 @@ export const StorageSettings: React.FC<StorageSettingsProps> = ({ onDelete }) =>
   const loadStorageStats = async () => {
     setIsLoadingStats(true);
     try {
-      const stats = await getStorageStats();
+      const [stats, largest] = await Promise.all([
+        getStorageStats(),
+        // Rincian ini opsional; ringkasan tetap tampil kalau gagal
+        getConversationStorage(LARGEST_CONVERSATIONS_COUNT).catch(() => []),
+      ]);
       setStorageStats(stats);
+      setLargestConversations(largest);
     } catch (error) {
       console.error('Failed to load storage stats:', error);
     } finally {
@@ -51,9 +68,11 @@ export const StorageSettings: React.FC<StorageSettingsProps> = ({ onDelete }) =>
           <div className="space-y-4">
             <div>
               <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-400">{t('conversationsData')}</span>
+                <span className="text-gray-400">
+                  {t('conversationsData')} · {t('storagePlan', { plan: PLAN_KEYS[storageStats.plan] ? t(PLAN_KEYS[storageStats.plan]) : storageStats.plan })}
+                </span>
                 <span className="text-white font-medium">
-                  {storageStats.usedStorageMB.toFixed(2)} MB / {storageStats.maxStorageMB} MB
+                  {formatBytes(storageStats.usedStorageBytes)} / {formatBytes(storageStats.maxStorageBytes)}
                 </span>
               </div>
               <div className="w-full bg-gray-700 rounded-full h-2.5 overflow-hidden">
@@ -88,13 +107,46 @@ export const StorageSettings: React.FC<StorageSettingsProps> = ({ onDelete }) =>
                 <div className="flex justify-between">
                   <span className="text-gray-500">{t('available')}:</span>
                   <span className="text-gray-300">
-                    {(storageStats.maxStorageMB - storageStats.usedStorageMB).toFixed(2)} MB
+                    {formatBytes(Math.max(0, storageStats.maxStorageBytes - storageStats.usedStorageBytes))}
                   </span>
                 </div>
               </div>
             </div>
 
-            {storageStats.usagePercentage > 80 && (
+            {largestConversations.length > 0 && (
+              <div className="pt-2">
+                <p className="text-xs font-medium text-gray-400 mb-2">{t('largestConversations')}</p>
+                <ul className="space-y-2">
+                  {largestConversations.map((conv) => (
+                    <li key={conv.conversationId} className="text-xs">
+                      <div className="flex justify-between gap-3 mb-1">
+                        <span className="truncate text-gray-300">{conv.title}</span>
+                        <span className="flex-shrink-0 text-gray-400">
+                          {formatBytes(conv.usedBytes)} · {t('storageMessageCount', { count: String(conv.messageCount) })}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                        <div
+                          className="h-1.5 rounded-full bg-blue-500"
+                          style={{
+                            width: `${storageStats.usedStorageBytes > 0 ? (conv.usedBytes / storageStats.usedStorageBytes) * 100 : 0}%`,
+                          }}
+                        ></div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {storageStats.usedStorageBytes >= storageStats.maxStorageBytes ? (
+              <div className="p-4 bg-red-600/10 border border-red-500/30 rounded-lg">
+                <p className="text-sm text-red-400 flex items-center gap-2">
+                  <span>⚠️</span>
+                  <span>{t('storageFull')}</span>
+                </p>
+              </div>
+            ) : storageStats.usagePercentage > 80 && (
               <div className="p-4 bg-yellow-600/10 border border-yellow-500/30 rounded-lg">
                 <p className="text-sm text-yellow-400 flex items-center gap-2">
                   <span>⚠️</span>
@@ -116,6 +168,10 @@ export const StorageSettings: React.FC<StorageSettingsProps> = ({ onDelete }) =>
         )}
       </div>
 
+      <ImportConversations onImported={loadStorageStats} />
+
+      <DownloadAccountData />
+
       <div className="p-6 bg-gray-800 border border-red-500/30 rounded-lg">
         <div className="mb-4">
           <h3 className="text-lg font-semibold text-red-300">{t('storageTitle')}</h3>
@@ -1,6 +1,7 @@
 // src/lib/supabaseClient.ts
 
 import { createClient } from '@supabase/supabase-js';
+import { MessageAttachment } from '../../types';
 
 // IMPORTANT: Replace these with your actual Supabase credentials
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'https://ppfzefgmkfmlcjalwvuv.supabase.co';
@@ -22,12 +23,48 @@ export type Database = {
     title: string;
     created_at: string;
     updated_at: string;
+    version: number;
+    active_leaf_id: string | null;
+    pinned_at: string | null;
+    archived_at: string | null;
+    folder_id: string | null;
+  };
+  conversation_folders: {
+    id: string;
+    user_id: string;
+    name: string;
+    created_at: string;
   };
   messages: {
     id: string;
     conversation_id: string;
     text: string;
     sender: 'user' | 'ai';
+    cancelled: boolean;
+    parent_id: string | null;
+    created_at: string;
+    status: 'pending' | 'streaming' | 'complete' | 'error' | 'cancelled';
+    latency_ms: number | null;
+    provider: string | null;
+    model: string | null;
+    prompt_tokens: number | null;
+    completion_tokens: number | null;
+    attachments: MessageAttachment[];
+    // Generated: UTF-8 bytes of text plus attachment metadata, used for storage accounting
+    size_bytes: number;
+    // Ordering key for messages and the paging cursor; not guaranteed to match insert order
+    seq: number;
+  };
+  user_profiles: {
+    id: string;
+    email: string;
+    full_name: string | null;
+    nickname: string | null;
+    preferences: string | null;
+    avatar_url: string | null;
+    provider: string | null;
     created_at: string;
+    updated_at: string | null;
+    last_login: string | null;
   };
 };
\ No newline at end of file
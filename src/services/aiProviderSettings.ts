@@ -0,0 +1,71 @@
+// src/services/aiProviderSettings.ts
+
+import { AIProviderId, AIProviderSettings } from './providers/types';
+import { DEFAULT_RETRY_OPTIONS, DEFAULT_TIMEOUT_MS } from './providers/retry';
+
+// Disimpan per user di browser ini saja, supaya API key tidak pernah dikirim ke database
+const SETTINGS_KEY_PREFIX = 'syrion-ai-provider';
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AIProviderSettings = {
+  provider: 'n8n',
+  endpoint: '',
+  apiKey: '',
+  model: '',
+  timeoutSeconds: DEFAULT_TIMEOUT_MS / 1000,
+  maxRetries: DEFAULT_RETRY_OPTIONS.maxRetries,
+};
+
+// The mock provider is for local development only
+const VALID_PROVIDERS: AIProviderId[] = import.meta.env.DEV ? ['n8n', 'openai', 'mock'] : ['n8n', 'openai'];
+
+export const TIMEOUT_SECONDS_RANGE = { min: 5, max: 300 };
+export const MAX_RETRIES_RANGE = { min: 0, max: 5 };
+
+const clampNumber = (value: unknown, range: { min: number; max: number }, fallback: number): number => {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return fallback;
+  return Math.min(range.max, Math.max(range.min, Math.round(num)));
+};
+
+const storageKey = (userId: string) => `${SETTINGS_KEY_PREFIX}:${userId}`;
+
+/**
+ * Load the AI provider settings for a user, falling back to the defaults
+ */
+export const getAIProviderSettings = (userId: string | null): AIProviderSettings => {
+  if (!userId) return DEFAULT_AI_PROVIDER_SETTINGS;
+
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return DEFAULT_AI_PROVIDER_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<AIProviderSettings>;
+    return {
+      ...DEFAULT_AI_PROVIDER_SETTINGS,
+      ...parsed,
+      provider: VALID_PROVIDERS.includes(parsed.provider as AIProviderId)
+        ? (parsed.provider as AIProviderId)
+        : DEFAULT_AI_PROVIDER_SETTINGS.provider,
+      // Settings saved before these fields existed won't have them
+      timeoutSeconds: clampNumber(parsed.timeoutSeconds, TIMEOUT_SECONDS_RANGE, DEFAULT_AI_PROVIDER_SETTINGS.timeoutSeconds),
+      maxRetries: clampNumber(parsed.maxRetries, MAX_RETRIES_RANGE, DEFAULT_AI_PROVIDER_SETTINGS.maxRetries),
+    };
+  } catch (error) {
+    console.error('Failed to parse AI provider settings from localStorage', error);
+    return DEFAULT_AI_PROVIDER_SETTINGS;
+  }
+};
+
+/**
+ * Save the AI provider settings for a user
+ */
+export const saveAIProviderSettings = (userId: string, settings: AIProviderSettings): void => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(settings));
+};
+
+/**
+ * Reset a user back to the built-in provider
+ */
+export const clearAIProviderSettings = (userId: string): void => {
+  localStorage.removeItem(storageKey(userId));
+};
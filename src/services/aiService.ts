@@ -0,0 +1,50 @@
+// src/services/aiService.ts
+
+import { supabase } from '../lib/supabaseClient';
+import { getAIProviderSettings } from './aiProviderSettings';
+import { getUserProfileContext } from './userProfileService';
+import { AIProvider, ChatRequest, StreamChunkHandler, StreamResult, createProvider } from './providers';
+
+let activeProvider: { key: string; provider: AIProvider } | null = null;
+
+/**
+ * Resolve the provider configured by the current user.
+ * The instance is reused until the user's settings change.
+ */
+export const getActiveProvider = async (): Promise<AIProvider> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const settings = getAIProviderSettings(session?.user.id ?? null);
+  const key = JSON.stringify(settings);
+
+  if (!activeProvider || activeProvider.key !== key) {
+    // Settings changed: don't leave requests running against the old provider
+    activeProvider?.provider.cancel();
+    activeProvider = { key, provider: createProvider(settings) };
+  }
+
+  return activeProvider.provider;
+};
+
+// Lengkapi request dengan profil user kalau pemanggil belum menyertakannya
+const withProfile = async (request: ChatRequest): Promise<ChatRequest> => {
+  if (request.profile !== undefined) return request;
+  return { ...request, profile: await getUserProfileContext() };
+};
+
+export const sendMessage = async (request: ChatRequest): Promise<string> => {
+  const provider = await getActiveProvider();
+  return provider.send(await withProfile(request));
+};
+
+export const streamMessage = async (request: ChatRequest, onChunk: StreamChunkHandler): Promise<StreamResult> => {
+  const provider = await getActiveProvider();
+  const result = await provider.stream(await withProfile(request), onChunk);
+  return { ...result, provider: provider.id };
+};
+
+/**
+ * Abort every request the active provider has in flight
+ */
+export const cancelActiveRequests = (): void => {
+  activeProvider?.provider.cancel();
+};
@@ -0,0 +1,133 @@
+// src/services/codeFiles.ts
+
+import { formatUnifiedDiff } from './textDiff';
+
+export interface CodeFile {
+  language: string;
+  content: string;
+}
+
+// Languages that open in a canvas
+export const CANVAS_LANGUAGES = [
+  'html', 'css', 'javascript', 'js', 'typescript', 'ts',
+  'jsx', 'tsx', 'react', 'typescript-react',
+  'python', 'cpp', 'c', 'java', 'php', 'ruby', 'go', 'rust',
+  'csharp', 'swift', 'kotlin', 'c++'
+];
+
+// Languages whose files are told apart by the component they define
+const COMPONENT_LANGUAGES = ['javascript', 'js', 'typescript', 'ts', 'jsx', 'tsx', 'react', 'typescript-react'];
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  ts: 'typescript',
+  react: 'jsx',
+  'typescript-react': 'tsx',
+  'c++': 'cpp',
+};
+
+/**
+ * Closed code fences in an AI answer that the canvas can show
+ */
+export const extractCodeFiles = (text: string): CodeFile[] => {
+  const files: CodeFile[] = [];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const codeStart = text.indexOf('```', pos);
+    if (codeStart === -1) break;
+
+    const langStart = codeStart + 3;
+    let langEnd = text.indexOf('\n', langStart);
+
+    if (langEnd === -1) {
+      pos = codeStart + 3;
+      continue;
+    }
+
+    const language = text.slice(langStart, langEnd).trim();
+    const contentStart = langEnd + 1;
+
+    let codeEnd = -1;
+    let searchPos = contentStart;
+
+    while (searchPos < text.length) {
+      const potentialEnd = text.indexOf('```', searchPos);
+      if (potentialEnd === -1) break;
+
+      if (potentialEnd === 0 || text[potentialEnd - 1] === '\n') {
+        codeEnd = potentialEnd;
+        break;
+      }
+
+      searchPos = potentialEnd + 3;
+    }
+
+    if (codeEnd === -1) break;
+
+    const content = text.slice(contentStart, codeEnd).trim();
+
+    if (CANVAS_LANGUAGES.includes(language.toLowerCase())) {
+      files.push({ language, content });
+    }
+
+    pos = codeEnd + 3;
+  }
+
+  return files;
+};
+
+export const extractComponentName = (code: string): string | null => {
+  const funcMatch = code.match(/function\s+([A-Z]\w+)/);
+  if (funcMatch) return funcMatch[1];
+
+  const constMatch = code.match(/const\s+([A-Z]\w+)\s*=/);
+  if (constMatch) return constMatch[1];
+
+  const exportMatch = code.match(/export\s+default\s+([A-Z]\w+)/);
+  if (exportMatch) return exportMatch[1];
+
+  return null;
+};
+
+/**
+ * What makes two files from different answers "the same file": the component
+ * they define for JS/TS, otherwise the language (the canvas names those files
+ * by language, e.g. main.py or index.html).
+ */
+export const getFileIdentity = (file: CodeFile): string => {
+  const lang = file.language.toLowerCase();
+  if (COMPONENT_LANGUAGES.includes(lang)) {
+    const componentName = extractComponentName(file.content);
+    if (componentName) return `component:${componentName}`;
+  }
+  return `file:${LANGUAGE_ALIASES[lang] ?? lang}`;
+};
+
+/**
+ * The most recent earlier version of `file`. `earlierFiles` holds the files of
+ * each earlier answer, oldest first.
+ */
+export const findPreviousVersion = (file: CodeFile, earlierFiles: CodeFile[][]): CodeFile | null => {
+  const identity = getFileIdentity(file);
+  for (let i = earlierFiles.length - 1; i >= 0; i--) {
+    const match = earlierFiles[i].find((candidate) => getFileIdentity(candidate) === identity);
+    if (match) return match;
+  }
+  return null;
+};
+
+export interface EditedFile {
+  name: string;
+  original: string;
+  edited: string;
+}
+
+/**
+ * A chat message describing the user's canvas edits as one diff per file
+ */
+export const formatEditsMessage = (intro: string, files: EditedFile[]): string =>
+  [
+    intro,
+    ...files.map((file) => `\`${file.name}\`\n\`\`\`diff\n${formatUnifiedDiff(file.name, file.original, file.edited)}\n\`\`\``),
+  ].join('\n\n');
@@ -0,0 +1,134 @@
+// src/services/contextBuilder.ts
+
+import { Message, MessageSender } from '../../types';
+
+export interface ContextTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationContext {
+  history: ContextTurn[];
+  summary: string | null;
+  estimatedTokens: number;
+  droppedTurns: number;
+}
+
+// What the user told us about themselves in General settings
+export interface UserProfileContext {
+  fullName: string | null;
+  nickname: string | null;
+  preferences: string | null;
+}
+
+interface BuildContextOptions {
+  maxTokens?: number;
+  maxSummaryChars?: number;
+}
+
+const DEFAULT_MAX_TOKENS = 6000; // Budget for prior turns, excluding the new question
+const DEFAULT_MAX_SUMMARY_CHARS = 1200;
+const CHARS_PER_TOKEN = 4; // Rough heuristic, good enough for budgeting
+const LOADING_PLACEHOLDER = '...';
+
+/**
+ * Rough token estimate for a piece of text
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+const toTurn = (message: Message): ContextTurn => ({
+  role: message.sender === MessageSender.User ? 'user' : 'assistant',
+  content: message.text,
+});
+
+// Ringkasan singkat: ambil baris pertama tiap turn, tanpa isi code block
+const summarizeTurn = (turn: ContextTurn): string => {
+  const withoutCode = turn.content.replace(/```[\s\S]*?```/g, '[code]');
+  const firstLine = withoutCode.split('\n').map(l => l.trim()).find(Boolean) || '';
+  const clipped = firstLine.length > 120 ? firstLine.slice(0, 117) + '...' : firstLine;
+  return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${clipped}`;
+};
+
+const buildSummary = (turns: ContextTurn[], maxChars: number): string | null => {
+  if (turns.length === 0) return null;
+
+  const lines: string[] = [];
+  let length = 0;
+
+  // Prioritaskan turn terbaru dari bagian yang dibuang
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const line = summarizeTurn(turns[i]);
+    if (length + line.length + 1 > maxChars) break;
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+
+  const omitted = turns.length - lines.length;
+  const header = `Earlier in this conversation (${turns.length} older message${turns.length > 1 ? 's' : ''} condensed${omitted > 0 ? `, ${omitted} omitted` : ''}):`;
+
+  return [header, ...lines].join('\n');
+};
+
+/**
+ * Build the prior-turn context sent along with a new question.
+ * Keeps the most recent turns that fit in the token budget and condenses the rest into a summary.
+ */
+export const buildConversationContext = (
+  messages: Message[],
+  options: BuildContextOptions = {}
+): ConversationContext => {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const maxSummaryChars = options.maxSummaryChars ?? DEFAULT_MAX_SUMMARY_CHARS;
+
+  const turns = messages
+    .filter(m => m.text && m.text !== LOADING_PLACEHOLDER && !m.error)
+    .map(toTurn);
+
+  const history: ContextTurn[] = [];
+  let usedTokens = 0;
+  let cutIndex = 0;
+
+  // Walk backwards so the latest turns (usually the code being iterated on) survive
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(turns[i].content);
+    if (usedTokens + tokens > maxTokens) {
+      cutIndex = i + 1;
+      break;
+    }
+    history.unshift(turns[i]);
+    usedTokens += tokens;
+  }
+
+  const dropped = turns.slice(0, cutIndex);
+  const summary = buildSummary(dropped, maxSummaryChars);
+
+  return {
+    history,
+    summary,
+    estimatedTokens: usedTokens + (summary ? estimateTokens(summary) : 0),
+    droppedTurns: dropped.length,
+  };
+};
+
+/**
+ * Turn the user's profile into system instructions for the model.
+ * Returns null when the user hasn't filled in anything.
+ */
+export const buildProfileContext = (profile: UserProfileContext | null | undefined): string | null => {
+  if (!profile) return null;
+
+  const lines: string[] = [];
+  const fullName = profile.fullName?.trim();
+  const nickname = profile.nickname?.trim();
+  const preferences = profile.preferences?.trim();
+
+  if (fullName) lines.push(`The user's name is ${fullName}.`);
+  if (nickname) lines.push(`Address the user as "${nickname}".`);
+  if (preferences) {
+    lines.push('', 'Custom instructions from the user (follow them unless they conflict with safety rules):', preferences);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : null;
+};
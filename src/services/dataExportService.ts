@@ -0,0 +1,123 @@
+// src/services/dataExportService.ts
+
+import { supabase } from '../lib/supabaseClient';
+import { Conversation } from '../../types';
+import * as supabaseStorage from './supabaseStorageService';
+import { downloadFile, toConversationExport, toMarkdown, toSlug } from './exportService';
+import { createZip, ZipEntry } from './zipWriter';
+
+export type DataExportStage = 'account' | 'conversations' | 'packaging';
+
+export interface DataExportProgress {
+  stage: DataExportStage;
+  done: number;
+  total: number;
+}
+
+export interface DataExportResult {
+  conversationCount: number;
+  messageCount: number;
+  sizeBytes: number;
+}
+
+// Larger than the sidebar page; only metadata is fetched here
+const CONVERSATION_BATCH_SIZE = 100;
+
+const fetchUserRows = async (table: string, column: string, userId: string) => {
+  const { data, error } = await supabase.from(table).select('*').eq(column, userId);
+  if (error) throw error;
+  return data || [];
+};
+
+const fetchAllConversationMetadata = async (): Promise<Conversation[]> => {
+  const conversations: Conversation[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await supabaseStorage.getConversationPage(cursor, CONVERSATION_BATCH_SIZE);
+    conversations.push(...page.conversations);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return conversations;
+};
+
+const toJsonFile = (path: string, data: unknown): ZipEntry => ({
+  path,
+  content: JSON.stringify(data, null, 2),
+});
+
+const buildReadme = (email: string | undefined, exportedAt: string, conversations: Conversation[]) => `# Syrion data export
+
+Account: ${email ?? '-'}
+Exported: ${exportedAt}
+Conversations: ${conversations.length}
+
+## Contents
+
+- \`profile.json\` - your user profile
+- \`billing.json\` - plan and billing records
+- \`rate_limits.json\` - message usage and rate-limit windows
+- \`folders.json\` - your conversation folders
+- \`conversations.json\` - every conversation with all messages and branches, plus where it is pinned, archived or filed (\`pinnedAt\`, \`archivedAt\`, \`folderId\`); can be imported back in Settings > Storage
+- \`conversations/\` - one Markdown transcript per conversation (the currently selected branch)
+`;
+
+/**
+ * Bundle all of the user's data into a zip and download it: profile, billing,
+ * rate-limit usage, folders and every conversation as JSON plus Markdown transcripts.
+ */
+export const exportAccountData = async (
+  onProgress?: (progress: DataExportProgress) => void
+): Promise<DataExportResult> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    onProgress?.({ stage: 'account', done: 0, total: 1 });
+    const [profileRows, billingRows, rateLimitRows, folderRows, metadata] = await Promise.all([
+      fetchUserRows('user_profiles', 'id', user.id),
+      fetchUserRows('user_billing', 'user_id', user.id),
+      fetchUserRows('rate_limits', 'user_id', user.id),
+      fetchUserRows('conversation_folders', 'user_id', user.id),
+      fetchAllConversationMetadata(),
+    ]);
+    onProgress?.({ stage: 'account', done: 1, total: 1 });
+
+    // One at a time: long histories are fetched in several requests each
+    const conversations: Conversation[] = [];
+    for (const [index, conversation] of metadata.entries()) {
+      onProgress?.({ stage: 'conversations', done: index, total: metadata.length });
+      const messages = await supabaseStorage.getAllMessages(conversation.id);
+      conversations.push({ ...conversation, messages, messagesLoaded: true, olderMessagesCursor: null });
+    }
+    onProgress?.({ stage: 'conversations', done: metadata.length, total: metadata.length });
+
+    onProgress?.({ stage: 'packaging', done: 0, total: 1 });
+    const exportedAt = new Date().toISOString();
+    const entries: ZipEntry[] = [
+      { path: 'README.md', content: buildReadme(user.email, exportedAt, conversations) },
+      toJsonFile('profile.json', profileRows[0] ?? null),
+      toJsonFile('billing.json', billingRows),
+      toJsonFile('rate_limits.json', rateLimitRows),
+      toJsonFile('folders.json', folderRows),
+      toJsonFile('conversations.json', conversations.map(toConversationExport)),
+      ...conversations.map((conversation) => ({
+        path: `conversations/${conversation.createdAt.slice(0, 10)}-${toSlug(conversation.title)}-${conversation.id.slice(0, 8)}.md`,
+        content: toMarkdown(conversation),
+        modifiedAt: new Date(conversation.createdAt),
+      })),
+    ];
+
+    const zip = createZip(entries);
+    downloadFile(zip, `syrion-data-${exportedAt.slice(0, 10)}.zip`, 'application/zip');
+    onProgress?.({ stage: 'packaging', done: 1, total: 1 });
+
+    return {
+      conversationCount: conversations.length,
+      messageCount: conversations.reduce((sum, c) => sum + c.messages.length, 0),
+      sizeBytes: zip.size,
+    };
+  } catch (error) {
+    console.error('Error exporting account data:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,280 @@
+// src/services/exportService.ts
+
+import { Conversation, Message, MessageSender } from '../../types';
+import * as supabaseStorage from './supabaseStorageService';
+import { getActivePath } from './messageTree';
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+export const EXPORT_FORMAT_ID = 'syrion-conversation';
+export const EXPORT_FORMAT_VERSION = 1;
+
+// Lossless export: the conversation as stored, every branch included
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  conversation: Conversation;
+}
+
+interface TextSegment {
+  type: 'text' | 'code';
+  content: string;
+  language?: string;
+}
+
+/**
+ * The conversation with every message. Paged conversations are fetched in full and
+ * merged with the local copy, so edits and messages that haven't synced yet are kept;
+ * when fetching fails (e.g. offline) the messages loaded so far are used. A conversation
+ * that was never opened has none loaded, so that case fails instead of exporting
+ * an empty transcript.
+ */
+export const loadFullConversation = async (conversation: Conversation): Promise<Conversation> => {
+  const isFullyLoaded = conversation.messagesLoaded !== false && conversation.olderMessagesCursor == null;
+  if (isFullyLoaded) return conversation;
+
+  const full = await supabaseStorage.getConversation(conversation.id);
+  if (!full) {
+    if (conversation.messagesLoaded === false) throw new Error('Could not load the conversation messages.');
+    return conversation;
+  }
+
+  // Local messages win over the server copy; ones the server doesn't have yet go last
+  const local = new Map(conversation.messages.map((m) => [m.id, m]));
+  const serverIds = new Set(full.messages.map((m) => m.id));
+  const messages = [
+    ...full.messages.map((m) => local.get(m.id) ?? m),
+    ...conversation.messages.filter((m) => !serverIds.has(m.id)),
+  ];
+
+  return { ...full, ...conversation, messages, messagesLoaded: true, olderMessagesCursor: null };
+};
+
+// Split text into prose and fenced code blocks, the same way messages are rendered
+const splitCodeFences = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  const fence = /```([^\n`]*)\n?([\s\S]*?)(?:```|$)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = fence.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', content: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'code', language: match[1].trim(), content: match[2].replace(/\n$/, '') });
+    lastIndex = fence.lastIndex;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', content: text.slice(lastIndex) });
+  }
+
+  return segments.filter((s) => s.type === 'code' || s.content.trim());
+};
+
+const senderLabel = (message: Message) => (message.sender === MessageSender.User ? 'You' : 'AI');
+
+// Only the branch that is shown goes into the readable transcripts
+const transcriptMessages = (conversation: Conversation) =>
+  getActivePath(conversation.messages, conversation.activeLeafId).filter((m) => !m.error);
+
+const formatDate = (isoDate: string) => new Date(isoDate).toLocaleString();
+
+/**
+ * Readable transcript with the code blocks kept as fenced code
+ */
+export const toMarkdown = (conversation: Conversation): string => {
+  const lines = [`# ${conversation.title}`, '', `_${formatDate(conversation.createdAt)}_`, ''];
+
+  transcriptMessages(conversation).forEach((message) => {
+    const time = message.createdAt ? ` · ${formatDate(message.createdAt)}` : '';
+    lines.push(`## ${senderLabel(message)}${time}`, '');
+
+    splitCodeFences(message.text).forEach((segment) => {
+      if (segment.type === 'code') {
+        // A longer fence than any run of backticks inside keeps the block intact
+        const longestRun = Math.max(2, ...(segment.content.match(/`+/g) || []).map((run) => run.length));
+        const fence = '`'.repeat(longestRun + 1);
+        lines.push(`${fence}${segment.language || ''}`, segment.content, fence, '');
+      } else {
+        lines.push(segment.content.trim(), '');
+      }
+    });
+
+    if (message.cancelled) lines.push('_(stopped)_', '');
+  });
+
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+/**
+ * The conversation as stored; client-only paging fields are left out
+ */
+export const toConversationExport = (conversation: Conversation): ConversationExport => {
+  const { messagesLoaded: _loaded, olderMessagesCursor: _cursor, ...stored } = conversation;
+  return {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: { ...stored, messages: conversation.messages.filter((m) => !m.error) },
+  };
+};
+
+/**
+ * Lossless JSON matching the Conversation type
+ */
+export const toJson = (conversation: Conversation): string =>
+  JSON.stringify(toConversationExport(conversation), null, 2);
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const HTML_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #111827; color: #e5e7eb; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+  main { max-width: 820px; margin: 0 auto; padding: 40px 24px; }
+  h1 { margin: 0 0 4px; font-size: 24px; color: #fff; }
+  .meta { color: #9ca3af; font-size: 13px; margin-bottom: 32px; }
+  .message { margin: 0 0 20px; padding: 16px 20px; border-radius: 12px; background: #1f2937; border: 1px solid #374151; }
+  .message.user { background: #1e3a8a; border-color: #1d4ed8; margin-left: 15%; }
+  .sender { font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: .04em; color: #9ca3af; margin-bottom: 8px; }
+  .message.user .sender { color: #bfdbfe; }
+  p { margin: 0 0 10px; white-space: pre-wrap; word-wrap: break-word; }
+  pre { margin: 0 0 10px; padding: 12px 14px; border-radius: 8px; background: #0b1120; border: 1px solid #374151; overflow-x: auto; }
+  code { font: 13px/1.5 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; color: #e5e7eb; }
+  .lang { display: block; margin-bottom: 6px; font-size: 11px; color: #9ca3af; }
+  .note { color: #9ca3af; font-style: italic; font-size: 13px; }
+  @media print {
+    body { background: #fff; color: #111827; }
+    .message { background: #fff; border-color: #d1d5db; break-inside: avoid; }
+    .message.user { background: #eff6ff; border-color: #bfdbfe; }
+    .message.user .sender, .sender, .meta, .lang, .note { color: #4b5563; }
+    h1 { color: #111827; }
+    pre { background: #f3f4f6; border-color: #d1d5db; white-space: pre-wrap; }
+    code { color: #111827; }
+  }
+`;
+
+/**
+ * Self-contained, styled HTML page; also used for printing to PDF
+ */
+export const toHtml = (conversation: Conversation): string => {
+  const body = transcriptMessages(conversation)
+    .map((message) => {
+      const content = splitCodeFences(message.text)
+        .map((segment) =>
+          segment.type === 'code'
+            ? `<pre>${segment.language ? `<span class="lang">${escapeHtml(segment.language)}</span>` : ''}<code>${escapeHtml(segment.content)}</code></pre>`
+            : `<p>${escapeHtml(segment.content.trim())}</p>`
+        )
+        .join('\n');
+      const time = message.createdAt ? ` · ${escapeHtml(formatDate(message.createdAt))}` : '';
+      const note = message.cancelled ? '<p class="note">(stopped)</p>' : '';
+
+      return `<section class="message ${message.sender === MessageSender.User ? 'user' : 'ai'}">
+<div class="sender">${senderLabel(message)}${time}</div>
+${content}${note}
+</section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(conversation.title)}</h1>
+<div class="meta">${escapeHtml(formatDate(conversation.createdAt))}</div>
+${body}
+</main>
+</body>
+</html>
+`;
+};
+
+export const toSlug = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'conversation';
+
+const toFileName = (conversation: Conversation, extension: string) =>
+  `${toSlug(conversation.title)}-${conversation.createdAt.slice(0, 10)}.${extension}`;
+
+export const downloadFile = (content: string | Blob, fileName: string, mimeType: string) => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Print the HTML export from a hidden frame; the browser's print dialog saves it as PDF
+const printHtml = (html: string): Promise<void> =>
+  new Promise((resolve) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.setAttribute('aria-hidden', 'true');
+
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow;
+      if (!frameWindow) {
+        frame.remove();
+        resolve();
+        return;
+      }
+      frameWindow.addEventListener('afterprint', () => setTimeout(() => frame.remove(), 0), { once: true });
+      frameWindow.focus();
+      frameWindow.print();
+      resolve();
+    };
+
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+/**
+ * Export a conversation in the given format and hand it to the browser
+ */
+export const exportConversation = async (conversation: Conversation, format: ExportFormat): Promise<void> => {
+  try {
+    const full = await loadFullConversation(conversation);
+
+    switch (format) {
+      case 'markdown':
+        downloadFile(toMarkdown(full), toFileName(full, 'md'), 'text/markdown;charset=utf-8');
+        break;
+      case 'json':
+        downloadFile(toJson(full), toFileName(full, 'json'), 'application/json');
+        break;
+      case 'html':
+        downloadFile(toHtml(full), toFileName(full, 'html'), 'text/html;charset=utf-8');
+        break;
+      case 'pdf':
+        await printHtml(toHtml(full));
+        break;
+    }
+  } catch (error) {
+    console.error('Error exporting conversation:', error);
+    throw error;
+  }
+};
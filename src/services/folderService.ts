@@ -0,0 +1,79 @@
+// src/services/folderService.ts
+
+import { supabase } from '../lib/supabaseClient';
+import { ConversationFolder } from '../../types';
+
+export const MAX_FOLDER_NAME_LENGTH = 60;
+
+const toFolder = (row: { id: string; name: string; created_at: string }): ConversationFolder => ({
+  id: row.id,
+  name: row.name,
+  createdAt: row.created_at,
+});
+
+const normalizeName = (name: string) => name.trim().slice(0, MAX_FOLDER_NAME_LENGTH);
+
+/**
+ * The current user's folders, sorted by name
+ */
+export const getFolders = async (): Promise<ConversationFolder[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('conversation_folders')
+      .select('id, name, created_at')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toFolder);
+  } catch (error) {
+    console.error('Error fetching folders:', error);
+    throw error;
+  }
+};
+
+export const createFolder = async (name: string): Promise<ConversationFolder> => {
+  try {
+    const { data, error } = await supabase
+      .from('conversation_folders')
+      .insert({ id: crypto.randomUUID(), name: normalizeName(name) })
+      .select('id, name, created_at')
+      .single();
+
+    if (error) throw error;
+    return toFolder(data);
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    throw error;
+  }
+};
+
+export const renameFolder = async (id: string, name: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('conversation_folders')
+      .update({ name: normalizeName(name) })
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error renaming folder:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a folder. Its conversations are kept and go back to the main list.
+ */
+export const deleteFolder = async (id: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('conversation_folders')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    throw error;
+  }
+};
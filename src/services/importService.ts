@@ -0,0 +1,432 @@
+// src/services/importService.ts
+
+import { Conversation, Message, MessageSender } from '../../types';
+import * as supabaseStorage from './supabaseStorageService';
+import { getFolders } from './folderService';
+import { getStorageStats } from './storageutils';
+import { EXPORT_FORMAT_ID } from './exportService';
+
+export type ImportSource = 'syrion' | 'chatgpt' | 'markdown';
+
+export const MAX_IMPORT_FILE_BYTES = 50 * 1024 * 1024;
+
+export interface ImportCandidate {
+  conversation: Conversation;
+  // Already stored (same id), or earlier in the same file
+  isDuplicate: boolean;
+  estimatedBytes: number;
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  candidates: ImportCandidate[];
+  // Entries in the file that could not be read as a conversation
+  invalidCount: number;
+  // Free space left under the storage quota
+  availableBytes: number;
+}
+
+export interface ImportResult {
+  imported: Conversation[];
+  failedCount: number;
+}
+
+export type ImportErrorKind = 'too-large' | 'invalid-json' | 'no-conversations' | 'quota';
+
+/**
+ * An import that can't go ahead; `kind` lets the UI explain why
+ */
+export class ImportError extends Error {
+  kind: ImportErrorKind;
+
+  constructor(kind: ImportErrorKind, message: string) {
+    super(message);
+    this.name = 'ImportError';
+    this.kind = kind;
+  }
+}
+
+interface ParsedFile {
+  source: ImportSource;
+  conversations: Conversation[];
+  invalidCount: number;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+// --- Syrion JSON export ---------------------------------------------------
+
+const toImportedMessage = (raw: unknown): Message | null => {
+  if (!isObject(raw)) return null;
+  if (typeof raw.id !== 'string' || !raw.id || typeof raw.text !== 'string') return null;
+  if (raw.sender !== MessageSender.User && raw.sender !== MessageSender.AI) return null;
+  // Failed turns are never stored
+  if (raw.error || raw.status === 'error') return null;
+
+  const message: Message = { id: raw.id, text: raw.text, sender: raw.sender };
+  if (raw.parentId === null || typeof raw.parentId === 'string') message.parentId = raw.parentId;
+  if (isValidDate(raw.createdAt)) message.createdAt = raw.createdAt;
+  if (raw.cancelled === true) message.cancelled = true;
+  if (['complete', 'cancelled'].includes(raw.status)) message.status = raw.status;
+  if (typeof raw.latencyMs === 'number') message.latencyMs = raw.latencyMs;
+  if (typeof raw.provider === 'string') message.provider = raw.provider;
+  if (typeof raw.model === 'string') message.model = raw.model;
+  if (isObject(raw.usage) && typeof raw.usage.promptTokens === 'number' && typeof raw.usage.completionTokens === 'number') {
+    message.usage = { promptTokens: raw.usage.promptTokens, completionTokens: raw.usage.completionTokens };
+  }
+  if (Array.isArray(raw.attachments)) {
+    message.attachments = raw.attachments.filter(
+      (a: any) => isObject(a) && typeof a.id === 'string' && typeof a.name === 'string'
+    );
+  }
+  return message;
+};
+
+const toImportedConversation = (raw: unknown): Conversation | null => {
+  if (!isObject(raw)) return null;
+  if (typeof raw.id !== 'string' || !raw.id || typeof raw.title !== 'string') return null;
+  if (!isValidDate(raw.createdAt) || !Array.isArray(raw.messages)) return null;
+
+  const messages = raw.messages.map(toImportedMessage);
+  if (messages.length === 0 || messages.some((m) => m === null)) return null;
+
+  const ids = new Set(messages.map((m) => m!.id));
+  if (ids.size !== messages.length) return null;
+
+  return {
+    id: raw.id,
+    title: raw.title,
+    createdAt: raw.createdAt,
+    messages: messages as Message[],
+    activeLeafId: typeof raw.activeLeafId === 'string' && ids.has(raw.activeLeafId) ? raw.activeLeafId : null,
+    pinnedAt: isValidDate(raw.pinnedAt) ? raw.pinnedAt : null,
+    archivedAt: isValidDate(raw.archivedAt) ? raw.archivedAt : null,
+    // Checked against the user's folders before saving
+    folderId: typeof raw.folderId === 'string' && raw.folderId ? raw.folderId : null,
+  };
+};
+
+// Accepts one export, a list of exports, or bare Conversation objects
+const parseSyrionJson = (data: unknown): ParsedFile => {
+  const entries = Array.isArray(data) ? data : [data];
+  const conversations: Conversation[] = [];
+  let invalidCount = 0;
+
+  entries.forEach((entry) => {
+    const raw = isObject(entry) && entry.format === EXPORT_FORMAT_ID ? entry.conversation : entry;
+    const conversation = toImportedConversation(raw);
+    if (conversation) conversations.push(conversation);
+    else invalidCount++;
+  });
+
+  return { source: 'syrion', conversations, invalidCount };
+};
+
+// --- ChatGPT conversations.json -------------------------------------------
+
+const isChatGptExport = (data: unknown): data is any[] =>
+  Array.isArray(data) && data.length > 0 && isObject(data[0]) && isObject(data[0].mapping);
+
+const chatGptMessageText = (message: any): string => {
+  const content = message?.content;
+  if (!isObject(content)) return '';
+
+  if (content.content_type === 'code' && typeof content.text === 'string') {
+    return `\`\`\`${content.language && content.language !== 'unknown' ? content.language : ''}\n${content.text}\n\`\`\``;
+  }
+  if (Array.isArray(content.parts)) {
+    // Images and other attachments are objects; only the text parts are kept
+    return content.parts.filter((part: unknown) => typeof part === 'string').join('\n').trim();
+  }
+  return typeof content.text === 'string' ? content.text : '';
+};
+
+const fromUnixSeconds = (seconds: unknown): string | undefined =>
+  typeof seconds === 'number' && seconds > 0 ? new Date(seconds * 1000).toISOString() : undefined;
+
+/**
+ * ChatGPT stores each conversation as a tree of nodes. User and assistant
+ * messages are kept with their branches; system and tool nodes are skipped and
+ * their children attached to the nearest kept ancestor.
+ */
+const fromChatGptConversation = (raw: any): Conversation | null => {
+  if (!isObject(raw) || !isObject(raw.mapping)) return null;
+
+  const id = raw.conversation_id || raw.id;
+  if (typeof id !== 'string' || !id) return null;
+
+  const nodes: Record<string, any> = raw.mapping;
+  const kept = new Map<string, Message>();
+
+  Object.values(nodes).forEach((node: any) => {
+    const message = node?.message;
+    const role = message?.author?.role;
+    if (role !== 'user' && role !== 'assistant') return;
+    if (message.metadata?.is_visually_hidden_from_conversation) return;
+
+    const text = chatGptMessageText(message);
+    if (!text) return;
+
+    const imported: Message = {
+      id: node.id,
+      text,
+      sender: role === 'user' ? MessageSender.User : MessageSender.AI,
+      status: 'complete',
+    };
+    const createdAt = fromUnixSeconds(message.create_time);
+    if (createdAt) imported.createdAt = createdAt;
+    if (role === 'assistant' && typeof message.metadata?.model_slug === 'string') {
+      imported.model = message.metadata.model_slug;
+      imported.provider = 'chatgpt';
+    }
+    kept.set(node.id, imported);
+  });
+
+  if (kept.size === 0) return null;
+
+  const nearestKeptAncestor = (nodeId: string | null | undefined): string | null => {
+    const seen = new Set<string>();
+    let current = nodeId ? nodes[nodeId] : undefined;
+    while (current && !seen.has(current.id)) {
+      if (kept.has(current.id)) return current.id;
+      seen.add(current.id);
+      current = current.parent ? nodes[current.parent] : undefined;
+    }
+    return null;
+  };
+
+  kept.forEach((message, nodeId) => {
+    message.parentId = nearestKeptAncestor(nodes[nodeId]?.parent);
+  });
+
+  // Oldest first, and never a reply before the message it answers
+  const byTime = [...kept.values()].sort(
+    (a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime()
+  );
+  const ordered: Message[] = [];
+  const placed = new Set<string>();
+  const place = (message: Message) => {
+    if (placed.has(message.id)) return;
+    if (message.parentId && !placed.has(message.parentId)) place(kept.get(message.parentId)!);
+    placed.add(message.id);
+    ordered.push(message);
+  };
+  byTime.forEach(place);
+
+  const createdAt = fromUnixSeconds(raw.create_time) ?? ordered[0].createdAt ?? new Date().toISOString();
+
+  return {
+    id,
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : 'ChatGPT conversation',
+    createdAt,
+    messages: ordered,
+    activeLeafId: nearestKeptAncestor(raw.current_node),
+  };
+};
+
+const parseChatGptJson = (data: any[]): ParsedFile => {
+  const conversations: Conversation[] = [];
+  let invalidCount = 0;
+
+  data.forEach((entry) => {
+    const conversation = fromChatGptConversation(entry);
+    if (conversation) conversations.push(conversation);
+    else invalidCount++;
+  });
+
+  return { source: 'chatgpt', conversations, invalidCount };
+};
+
+// --- Markdown transcripts -------------------------------------------------
+
+const USER_HEADINGS = ['you', 'user', 'human', 'me'];
+const AI_HEADINGS = ['ai', 'assistant', 'chatgpt', 'bot', 'model'];
+
+/**
+ * A "# Title" line followed by "## You" / "## AI" sections, as written by the
+ * Markdown export. Headings inside fenced code blocks are left alone.
+ */
+const parseMarkdown = (text: string, fileName: string): ParsedFile => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let title = '';
+  let fence: string | null = null;
+  const sections: { sender: MessageSender; lines: string[] }[] = [];
+
+  lines.forEach((line) => {
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1].startsWith(fence)) fence = null;
+    }
+
+    if (!fence && !fenceMatch) {
+      const titleMatch = line.match(/^#\s+(.+)$/);
+      if (titleMatch && !title && sections.length === 0) {
+        title = titleMatch[1].trim();
+        return;
+      }
+
+      const headingMatch = line.match(/^#{2,3}\s+([^·:]+)/);
+      const role = headingMatch?.[1].trim().toLowerCase();
+      if (role && (USER_HEADINGS.includes(role) || AI_HEADINGS.includes(role))) {
+        sections.push({ sender: USER_HEADINGS.includes(role) ? MessageSender.User : MessageSender.AI, lines: [] });
+        return;
+      }
+    }
+
+    sections[sections.length - 1]?.lines.push(line);
+  });
+
+  const now = Date.now();
+  const messages: Message[] = [];
+
+  sections.forEach((section) => {
+    let body = section.lines.join('\n').trim();
+    const cancelled = /\n?_\(stopped\)_$/.test(body);
+    if (cancelled) body = body.replace(/\n?_\(stopped\)_$/, '').trim();
+    if (!body) return;
+
+    messages.push({
+      id: crypto.randomUUID(),
+      text: body,
+      sender: section.sender,
+      parentId: messages.length > 0 ? messages[messages.length - 1].id : null,
+      createdAt: new Date(now + messages.length).toISOString(),
+      status: cancelled ? 'cancelled' : 'complete',
+      ...(cancelled ? { cancelled: true } : {}),
+    });
+  });
+
+  if (messages.length === 0) {
+    return { source: 'markdown', conversations: [], invalidCount: 1 };
+  }
+
+  return {
+    source: 'markdown',
+    conversations: [
+      {
+        id: crypto.randomUUID(),
+        title: title || fileName.replace(/\.(md|markdown|txt)$/i, '') || 'Imported conversation',
+        createdAt: new Date(now).toISOString(),
+        messages,
+      },
+    ],
+    invalidCount: 0,
+  };
+};
+
+// --------------------------------------------------------------------------
+
+/**
+ * Read an import file and detect its format
+ */
+export const parseImportFile = async (file: File): Promise<ParsedFile> => {
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    throw new ImportError('too-large', 'The file is too large to import.');
+  }
+
+  const text = await file.text();
+  const hasJsonExtension = /\.json$/i.test(file.name);
+  const isJson = hasJsonExtension || /^\s*[[{]/.test(text);
+
+  if (!isJson) return parseMarkdown(text, file.name);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // A Markdown file may well start with a [link] or {placeholder}
+    if (!hasJsonExtension) return parseMarkdown(text, file.name);
+    throw new ImportError('invalid-json', 'The file is not valid JSON.');
+  }
+
+  return isChatGptExport(data) ? parseChatGptJson(data) : parseSyrionJson(data);
+};
+
+const estimateBytes = (conversation: Conversation) =>
+  conversation.messages.reduce((sum, m) => sum + supabaseStorage.getMessageSizeBytes(m), 0);
+
+/**
+ * Parse a file and check it against what is already stored and the storage quota
+ */
+export const previewImport = async (file: File): Promise<ImportPreview> => {
+  try {
+    const parsed = await parseImportFile(file);
+    if (parsed.conversations.length === 0) {
+      throw new ImportError('no-conversations', 'No conversations were found in this file.');
+    }
+
+    const [existingIds, stats] = await Promise.all([
+      supabaseStorage.getExistingConversationIds(parsed.conversations.map((c) => c.id)),
+      getStorageStats(),
+    ]);
+
+    const seen = new Set<string>();
+    const candidates = parsed.conversations.map((conversation) => {
+      const isDuplicate = existingIds.has(conversation.id) || seen.has(conversation.id);
+      seen.add(conversation.id);
+      return { conversation, isDuplicate, estimatedBytes: estimateBytes(conversation) };
+    });
+
+    return {
+      source: parsed.source,
+      candidates,
+      invalidCount: parsed.invalidCount,
+      availableBytes: Math.max(0, stats.maxStorageBytes - stats.usedStorageBytes),
+    };
+  } catch (error) {
+    console.error('Error reading import file:', error);
+    throw error;
+  }
+};
+
+/**
+ * Save the chosen conversations one by one. A failure skips that conversation
+ * instead of stopping the import. Conversations from a folder the user doesn't
+ * have (e.g. exported from another account) are imported without one.
+ */
+export const importConversations = async (
+  conversations: Conversation[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> => {
+  const stats = await getStorageStats();
+  const availableBytes = stats.maxStorageBytes - stats.usedStorageBytes;
+  const requiredBytes = conversations.reduce((sum, c) => sum + estimateBytes(c), 0);
+  if (requiredBytes > availableBytes) {
+    throw new ImportError('quota', 'Not enough storage left for this import.');
+  }
+
+  const folderIds = conversations.some((c) => c.folderId)
+    ? new Set((await getFolders()).map((f) => f.id))
+    : new Set<string>();
+
+  const imported: Conversation[] = [];
+  let failedCount = 0;
+  const seen = new Set<string>();
+
+  for (const [index, entry] of conversations.entries()) {
+    const conversation = entry.folderId && !folderIds.has(entry.folderId) ? { ...entry, folderId: null } : entry;
+
+    // A file can repeat an id; saving it twice would overwrite the first copy
+    if (seen.has(conversation.id)) {
+      onProgress?.(index + 1, conversations.length);
+      continue;
+    }
+    seen.add(conversation.id);
+
+    try {
+      const { version } = await supabaseStorage.saveConversation(conversation);
+      imported.push({ ...conversation, version });
+    } catch (error) {
+      console.error(`Error importing conversation ${conversation.id}:`, error);
+      failedCount++;
+    }
+    onProgress?.(index + 1, conversations.length);
+  }
+
+  return { imported, failedCount };
+};
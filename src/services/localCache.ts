@@ -0,0 +1,195 @@
+// src/services/localCache.ts
+
+import { Conversation } from '../../types';
+
+const DB_NAME = 'syrion-cache';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const QUEUE_STORE = 'syncQueue';
+
+export interface CachedConversation extends Conversation {
+  userId: string;
+  // Local changes that haven't reached Supabase yet
+  pendingSync: boolean;
+  // Server version this copy is based on, used to detect changes made elsewhere
+  baseVersion: number | null;
+  // Messages this client has seen on the server. A sync only deletes server rows among
+  // these, so messages another device added are never mistaken for local deletions.
+  persistedMessageIds?: string[];
+}
+
+export type SyncOperationType = 'save' | 'delete';
+
+// One entry per conversation; a newer write replaces the older one
+export interface SyncOperation {
+  conversationId: string;
+  userId: string;
+  type: SyncOperationType;
+  queuedAt: number;
+  attempts: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+          store.createIndex('userId', 'userId');
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          const store = db.createObjectStore(QUEUE_STORE, { keyPath: 'conversationId' });
+          store.createIndex('userId', 'userId');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow another attempt later, e.g. after private browsing blocked the first one
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * All cached conversations of a user, newest first
+ */
+export const getCachedConversations = async (userId: string): Promise<CachedConversation[]> => {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS_STORE, 'readonly');
+  const rows = await requestToPromise(
+    tx.objectStore(CONVERSATIONS_STORE).index('userId').getAll(userId) as IDBRequest<CachedConversation[]>
+  );
+  return rows.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+export const getCachedConversation = async (id: string): Promise<CachedConversation | null> => {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS_STORE, 'readonly');
+  const row = await requestToPromise(
+    tx.objectStore(CONVERSATIONS_STORE).get(id) as IDBRequest<CachedConversation | undefined>
+  );
+  return row ?? null;
+};
+
+export const putCachedConversation = async (conversation: CachedConversation): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+  tx.objectStore(CONVERSATIONS_STORE).put(conversation);
+  await transactionDone(tx);
+};
+
+export const deleteCachedConversation = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+  tx.objectStore(CONVERSATIONS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Remove every cached conversation and queued write of a user
+ */
+export const clearUserCache = async (userId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([CONVERSATIONS_STORE, QUEUE_STORE], 'readwrite');
+
+  for (const storeName of [CONVERSATIONS_STORE, QUEUE_STORE]) {
+    const store = tx.objectStore(storeName);
+    const keys = await requestToPromise(store.index('userId').getAllKeys(userId));
+    keys.forEach((key) => store.delete(key));
+  }
+
+  await transactionDone(tx);
+};
+
+/**
+ * Queue a write for a conversation, replacing any write already queued for it
+ */
+export const enqueueSyncOperation = async (
+  operation: Omit<SyncOperation, 'queuedAt' | 'attempts'>
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).put({ ...operation, queuedAt: Date.now(), attempts: 0 });
+  await transactionDone(tx);
+};
+
+/**
+ * Queued writes of a user, oldest first
+ */
+export const getSyncOperations = async (userId: string): Promise<SyncOperation[]> => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readonly');
+  const rows = await requestToPromise(
+    tx.objectStore(QUEUE_STORE).index('userId').getAll(userId) as IDBRequest<SyncOperation[]>
+  );
+  return rows.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+/**
+ * Drop a queued write once it has been applied, unless a newer write
+ * for the same conversation was queued in the meantime
+ */
+export const completeSyncOperation = async (operation: SyncOperation): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(QUEUE_STORE);
+  const current = await requestToPromise(store.get(operation.conversationId) as IDBRequest<SyncOperation | undefined>);
+  if (current && current.queuedAt === operation.queuedAt) {
+    store.delete(operation.conversationId);
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Record a failed attempt so persistently failing writes can be backed off
+ */
+export const recordSyncFailure = async (operation: SyncOperation): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(QUEUE_STORE);
+  const current = await requestToPromise(store.get(operation.conversationId) as IDBRequest<SyncOperation | undefined>);
+  if (current && current.queuedAt === operation.queuedAt) {
+    store.put({ ...current, attempts: current.attempts + 1 });
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Give writes that gave up another chance
+ */
+export const resetSyncAttempts = async (userId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(QUEUE_STORE);
+  const rows = await requestToPromise(store.index('userId').getAll(userId) as IDBRequest<SyncOperation[]>);
+  rows.filter((op) => op.attempts > 0).forEach((op) => store.put({ ...op, attempts: 0 }));
+  await transactionDone(tx);
+};
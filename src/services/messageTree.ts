@@ -0,0 +1,94 @@
+// src/services/messageTree.ts
+
+import { Conversation, Message } from '../../types';
+
+/**
+ * Messages are stored as a tree: editing an earlier prompt adds a sibling
+ * instead of replacing it. `conversation.messages` holds every branch in
+ * creation order; these helpers pick out the branch that is shown.
+ */
+
+// Messages saved before branching existed have no parentId and reply to the one before them
+const resolveParentId = (messages: Message[], index: number): string | null => {
+  const message = messages[index];
+  if (message.parentId !== undefined) return message.parentId;
+  return index > 0 ? messages[index - 1].id : null;
+};
+
+/**
+ * Fill in missing parent links from the message order
+ */
+export const withParentLinks = (messages: Message[]): Message[] => {
+  if (messages.every((m) => m.parentId !== undefined)) return messages;
+  return messages.map((m, index) => (m.parentId !== undefined ? m : { ...m, parentId: resolveParentId(messages, index) }));
+};
+
+/**
+ * Messages of the branch ending at `leafId`, oldest first. Falls back to the
+ * newest message when the leaf is unknown (not saved yet, or not loaded).
+ */
+export const getActivePath = (messages: Message[], leafId: string | null | undefined): Message[] => {
+  if (messages.length === 0) return [];
+
+  const linked = withParentLinks(messages);
+  const byId = new Map(linked.map((m) => [m.id, m]));
+  const path: Message[] = [];
+  let current: Message | undefined = (leafId && byId.get(leafId)) || linked[linked.length - 1];
+
+  while (current) {
+    path.push(current);
+    // Stops at the root, or at the oldest loaded page
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path.reverse();
+};
+
+/**
+ * For every message, the ids of the messages sharing its parent (itself included), oldest first
+ */
+export const getSiblingIds = (messages: Message[]): Map<string, string[]> => {
+  const childrenByParent = new Map<string | null, string[]>();
+  withParentLinks(messages).forEach((m) => {
+    const key = m.parentId ?? null;
+    const children = childrenByParent.get(key) || [];
+    children.push(m.id);
+    childrenByParent.set(key, children);
+  });
+
+  const siblings = new Map<string, string[]>();
+  childrenByParent.forEach((ids) => ids.forEach((id) => siblings.set(id, ids)));
+  return siblings;
+};
+
+/**
+ * Follow the newest reply from `messageId` down to the end of its branch
+ */
+export const getLatestLeafId = (messages: Message[], messageId: string): string => {
+  const linked = withParentLinks(messages);
+  let leafId = messageId;
+
+  for (;;) {
+    const children = linked.filter((m) => m.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+};
+
+/**
+ * Drop failed turns before saving. If the shown branch ended in one,
+ * its parent becomes the end of the branch.
+ */
+export const withoutFailedMessages = (conversation: Conversation): Conversation => {
+  const failed = conversation.messages.filter((m) => m.error);
+  if (failed.length === 0) return conversation;
+
+  const messages = withParentLinks(conversation.messages);
+  const failedIds = new Set(failed.map((m) => m.id));
+  let activeLeafId = conversation.activeLeafId ?? null;
+  while (activeLeafId && failedIds.has(activeLeafId)) {
+    activeLeafId = messages.find((m) => m.id === activeLeafId)?.parentId ?? null;
+  }
+
+  return { ...conversation, messages: messages.filter((m) => !m.error), activeLeafId };
+};
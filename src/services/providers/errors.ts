@@ -0,0 +1,85 @@
+// src/services/providers/errors.ts
+
+import { MessageErrorKind } from '../../../types';
+
+export type AIErrorKind = MessageErrorKind;
+
+interface AIRequestErrorOptions {
+  status?: number;
+  // Text that had already streamed in before the failure
+  partialText?: string;
+  detail?: string;
+}
+
+/**
+ * Failure of a request to an AI provider. `kind` tells the UI what went wrong
+ * without having to parse the message text.
+ */
+export class AIRequestError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  partialText: string;
+  detail?: string;
+
+  constructor(kind: AIErrorKind, message: string, options: AIRequestErrorOptions = {}) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.kind = kind;
+    this.status = options.status;
+    this.partialText = options.partialText || '';
+    this.detail = options.detail;
+  }
+}
+
+export const isAIRequestError = (error: unknown): error is AIRequestError =>
+  error instanceof AIRequestError;
+
+/**
+ * Build an error from a non-2xx response
+ */
+export const createHttpError = async (response: Response): Promise<AIRequestError> => {
+  const errorText = await response.text().catch(() => 'Could not read error response body.');
+  return new AIRequestError('http', `Endpoint responded with status: ${response.status}`, {
+    status: response.status,
+    detail: errorText.slice(0, 500),
+  });
+};
+
+/**
+ * Turn a rejected `fetch` into a typed error.
+ * Browsers report CORS and network failures identically ("Failed to fetch"), so
+ * an opaque no-cors probe is used to tell them apart: if the server answers it,
+ * the real request was blocked by CORS.
+ */
+export const classifyFetchError = async (error: unknown, url: string): Promise<AIRequestError> => {
+  if (isAIRequestError(error)) return error;
+
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new AIRequestError('timeout', 'The request timed out.');
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new AIRequestError('network', 'You appear to be offline.', { detail: message });
+  }
+
+  if (error instanceof TypeError) {
+    try {
+      await fetch(url, { method: 'GET', mode: 'no-cors', signal: AbortSignal.timeout(5000) });
+      return new AIRequestError('cors', 'The endpoint is reachable but blocked the request (CORS).', { detail: message });
+    } catch {
+      return new AIRequestError('network', 'The endpoint could not be reached.', { detail: message });
+    }
+  }
+
+  return new AIRequestError('unknown', message);
+};
+
+/**
+ * Normalize anything thrown during a request for display in the UI
+ */
+export const toAIRequestError = (error: unknown): AIRequestError => {
+  if (isAIRequestError(error)) return error;
+  return new AIRequestError('unknown', error instanceof Error ? error.message : String(error));
+};
@@ -0,0 +1,41 @@
+// src/services/providers/index.ts
+
+import { AIProvider, AIProviderSettings } from './types';
+import { createN8nProvider } from './n8nProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+
+export * from './types';
+export * from './errors';
+export { DEFAULT_RETRY_OPTIONS, DEFAULT_TIMEOUT_MS } from './retry';
+export { createN8nProvider, DEFAULT_N8N_WEBHOOK_URL } from './n8nProvider';
+export { createOpenAiProvider } from './openAiProvider';
+export { createMockProvider } from './mockProvider';
+
+/**
+ * Instantiate the provider described by the user's settings
+ */
+export const createProvider = (settings: AIProviderSettings): AIProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiProvider({
+        endpoint: settings.endpoint,
+        apiKey: settings.apiKey,
+        model: settings.model,
+        timeoutMs: settings.timeoutSeconds * 1000,
+        maxRetries: settings.maxRetries,
+      });
+    case 'mock':
+      if (import.meta.env.DEV) return createMockProvider();
+      break;
+    case 'n8n':
+    default:
+      break;
+  }
+
+  return createN8nProvider({
+    webhookUrl: settings.endpoint || undefined,
+    timeoutMs: settings.timeoutSeconds * 1000,
+    maxRetries: settings.maxRetries,
+  });
+};
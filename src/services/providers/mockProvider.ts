@@ -0,0 +1,90 @@
+// src/services/providers/mockProvider.ts
+
+import { AIProvider, ChatRequest, StreamChunkHandler, StreamResult } from './types';
+import { createRequestTracker } from './streamUtils';
+
+interface MockProviderConfig {
+  // Fixed reply; defaults to an echo of the question
+  reply?: string | ((request: ChatRequest) => string);
+  // Delay between streamed words, in milliseconds
+  chunkDelayMs?: number;
+}
+
+const defaultReply = (request: ChatRequest): string => {
+  const turns = request.history?.length || 0;
+  return [
+    `**Mock response** (${turns} previous message${turns === 1 ? '' : 's'} in context)`,
+    '',
+    'You said:',
+    '',
+    `> ${request.message}`,
+    '',
+    '```javascript',
+    "console.log('Hello from the mock provider');",
+    '```',
+  ].join('\n');
+};
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Offline provider for development and tests. Never touches the network.
+ */
+export const createMockProvider = (config: MockProviderConfig = {}): AIProvider => {
+  const tracker = createRequestTracker();
+  const chunkDelayMs = config.chunkDelayMs ?? 30;
+
+  const resolveReply = (request: ChatRequest): string => {
+    if (typeof config.reply === 'function') return config.reply(request);
+    return config.reply ?? defaultReply(request);
+  };
+
+  const send = async (request: ChatRequest): Promise<string> => {
+    const { signal, end } = tracker.begin(request.signal);
+    try {
+      await wait(chunkDelayMs, signal);
+      return resolveReply(request);
+    } catch {
+      return '';
+    } finally {
+      end();
+    }
+  };
+
+  const stream = async (request: ChatRequest, onChunk: StreamChunkHandler): Promise<StreamResult> => {
+    const { signal, end } = tracker.begin(request.signal);
+    const words = resolveReply(request).split(/(?<=\s)/);
+    let fullText = '';
+
+    try {
+      for (const word of words) {
+        await wait(chunkDelayMs, signal);
+        fullText += word;
+        onChunk(word, fullText);
+      }
+      return { text: fullText, cancelled: false };
+    } catch {
+      return { text: fullText, cancelled: true };
+    } finally {
+      end();
+    }
+  };
+
+  return {
+    id: 'mock',
+    send,
+    stream,
+    cancel: tracker.cancelAll,
+  };
+};
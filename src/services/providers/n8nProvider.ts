@@ -0,0 +1,252 @@
+// src/services/providers/n8nProvider.ts
+
+import { buildConversationContext, buildProfileContext } from '../contextBuilder';
+import { AIProvider, ChatRequest, StreamChunkHandler, StreamResult } from './types';
+import { createRequestTracker, isStreamingResponse, readTextStream } from './streamUtils';
+import { AIRequestError, classifyFetchError, createHttpError, toAIRequestError } from './errors';
+import { DEFAULT_RETRY_OPTIONS, DEFAULT_TIMEOUT_MS, createAttemptSignal, withRetry } from './retry';
+
+// Used when the user hasn't configured their own webhook in settings
+export const DEFAULT_N8N_WEBHOOK_URL = 'https://submiss-christena-repeatable.ngrok-free.dev/webhook/AIsyrfBolt';
+
+interface N8nProviderConfig {
+  webhookUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const parseWebhookResponse = (responseText: string): string => {
+  // This handles the "Unexpected end of JSON input" error by checking for an empty response.
+  if (!responseText.trim()) {
+    throw new AIRequestError('empty', 'The AI returned an empty response.', {
+      detail: 'The webhook may not be configured to send a response body. Please check your n8n workflow.',
+    });
+  }
+
+  let data: any;
+  try {
+    // First, try to parse the response as JSON.
+    data = JSON.parse(responseText);
+  } catch (e) {
+    // If parsing as JSON fails, the webhook might have returned plain text.
+    // This makes the app more resilient.
+    return responseText;
+  }
+
+  // The new webhook format returns an array with an object inside.
+  // e.g., [{"output": "Hello! ..."}]
+  if (Array.isArray(data) && data.length > 0 && typeof data[0] === 'object' && data[0] !== null && 'output' in data[0]) {
+    if (!data[0].output) {
+      throw new AIRequestError('empty', 'The AI response was empty.');
+    }
+    return data[0].output;
+  }
+
+  // Fallback for a previous format for compatibility (e.g., { "answer": "..." }).
+  if (data?.answer) {
+    return data.answer;
+  }
+
+  // If the format is completely unexpected.
+  throw new AIRequestError('format', 'The response format was unexpected.', {
+    detail: 'Please check the n8n workflow output.',
+  });
+};
+
+// Ambil potongan teks dari satu event stream. Mendukung format n8n streaming
+// ({"type":"item","content":"..."}), delta gaya OpenAI, dan teks mentah.
+const extractStreamText = (payload: string): string => {
+  const trimmed = payload.trim();
+  if (!trimmed || trimmed === '[DONE]') return '';
+
+  try {
+    const data = JSON.parse(trimmed);
+    if (typeof data === 'string') return data;
+    if (data === null || typeof data !== 'object') return String(data);
+
+    if ('type' in data && data.type !== 'item') return ''; // begin / end markers
+    if (typeof data.content === 'string') return data.content;
+    if (typeof data.output === 'string') return data.output;
+    if (typeof data.delta === 'string') return data.delta;
+    if (typeof data.text === 'string') return data.text;
+
+    const choiceDelta = data.choices?.[0]?.delta?.content;
+    if (typeof choiceDelta === 'string') return choiceDelta;
+
+    return '';
+  } catch {
+    return payload;
+  }
+};
+
+/**
+ * Provider for an n8n workflow exposed through a webhook node.
+ * Each attempt has an inactivity timeout; network errors, timeouts and 5xx
+ * responses are retried with backoff as long as nothing has been streamed yet.
+ */
+export const createN8nProvider = (config: N8nProviderConfig = {}): AIProvider => {
+  const webhookUrl = config.webhookUrl || DEFAULT_N8N_WEBHOOK_URL;
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retryOptions = { ...DEFAULT_RETRY_OPTIONS, maxRetries: config.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries };
+  const tracker = createRequestTracker();
+
+  const postToWebhook = (
+    request: ChatRequest,
+    stream: boolean,
+    signal: AbortSignal,
+    idempotencyKey: string,
+    attempt: number
+  ): Promise<Response> => {
+    const context = buildConversationContext(request.history || [], {
+      maxTokens: request.maxContextTokens,
+    });
+
+    return fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: stream
+          ? 'text/event-stream, application/x-ndjson, text/plain, application/json'
+          : 'application/json, text/plain',
+        // This header is crucial for bypassing the ngrok browser warning page,
+        // which can cause "Failed to fetch" errors in programmatic clients.
+        'ngrok-skip-browser-warning': 'true',
+      },
+      // `question` stays at the top level so older n8n workflows keep working.
+      // The idempotency key goes in the body rather than a header so it doesn't
+      // need to be allowed in the webhook's CORS settings.
+      body: JSON.stringify({
+        question: request.message,
+        conversationId: request.conversationId || null,
+        history: context.history,
+        summary: context.summary,
+        // Raw fields for workflows that build their own prompt, plus a ready-made system prompt
+        profile: request.profile || null,
+        systemContext: buildProfileContext(request.profile),
+        stream,
+        idempotencyKey,
+        attempt,
+      }),
+      signal,
+    });
+  };
+
+  // Jalankan satu percobaan dengan timeout sendiri dan klasifikasikan error-nya
+  const runAttempt = async <T>(
+    signal: AbortSignal,
+    run: (attemptSignal: AbortSignal, touch: () => void) => Promise<T>
+  ): Promise<T> => {
+    const attempt = createAttemptSignal(signal, timeoutMs);
+    try {
+      return await run(attempt.signal, attempt.touch);
+    } catch (error) {
+      if (signal.aborted) throw error;
+      if (attempt.isTimedOut()) {
+        throw new AIRequestError('timeout', `No response from the webhook within ${Math.round(timeoutMs / 1000)}s.`);
+      }
+      throw await classifyFetchError(error, webhookUrl);
+    } finally {
+      attempt.clear();
+    }
+  };
+
+  const send = async (request: ChatRequest): Promise<string> => {
+    const { signal, end } = tracker.begin(request.signal);
+    const idempotencyKey = request.idempotencyKey || crypto.randomUUID();
+
+    try {
+      return await withRetry(
+        (attemptNumber) =>
+          runAttempt(signal, async (attemptSignal) => {
+            const response = await postToWebhook(request, false, attemptSignal, idempotencyKey, attemptNumber);
+
+            if (!response.ok) {
+              throw await createHttpError(response);
+            }
+
+            const responseText = await response.text();
+            return parseWebhookResponse(responseText);
+          }),
+        { ...retryOptions, signal, onRetry: request.onRetry }
+      );
+    } catch (error) {
+      console.error("Error sending message to webhook:", error);
+      throw toAIRequestError(error);
+    } finally {
+      end();
+    }
+  };
+
+  const stream = async (request: ChatRequest, onChunk: StreamChunkHandler): Promise<StreamResult> => {
+    const { signal, end } = tracker.begin(request.signal);
+    const idempotencyKey = request.idempotencyKey || crypto.randomUUID();
+    let fullText = '';
+
+    try {
+      return await withRetry(
+        (attemptNumber) =>
+          runAttempt(signal, async (attemptSignal, touch): Promise<StreamResult> => {
+            const response = await postToWebhook(request, true, attemptSignal, idempotencyKey, attemptNumber);
+
+            if (!response.ok) {
+              throw await createHttpError(response);
+            }
+
+            // Workflow without streaming enabled, or a browser without ReadableStream support
+            if (!isStreamingResponse(response)) {
+              fullText = parseWebhookResponse(await response.text());
+              onChunk(fullText, fullText);
+              return { text: fullText, cancelled: false };
+            }
+
+            fullText = await readTextStream(response, extractStreamText, (chunk, text) => {
+              touch();
+              fullText = text;
+              onChunk(chunk, text);
+            });
+
+            // Some workflows stream the final JSON envelope as plain text
+            const contentType = response.headers.get('content-type') || '';
+            const isLineBased = contentType.includes('text/event-stream') || contentType.includes('ndjson');
+            if (!isLineBased && /^\s*[[{]/.test(fullText)) {
+              const parsed = parseWebhookResponse(fullText);
+              if (parsed !== fullText) {
+                onChunk('', parsed);
+                return { text: parsed, cancelled: false };
+              }
+            }
+
+            if (!fullText.trim()) {
+              throw new AIRequestError('empty', 'The AI returned an empty response.');
+            }
+
+            return { text: fullText, cancelled: false };
+          }),
+        {
+          ...retryOptions,
+          signal,
+          onRetry: request.onRetry,
+          // Retrying after text has been shown would duplicate the answer
+          canRetry: () => !fullText,
+        }
+      );
+    } catch (error) {
+      if (signal.aborted) {
+        return { text: fullText, cancelled: true };
+      }
+      console.error("Error sending message to webhook:", error);
+      const aiError = toAIRequestError(error);
+      aiError.partialText = fullText;
+      throw aiError;
+    } finally {
+      end();
+    }
+  };
+
+  return {
+    id: 'n8n',
+    send,
+    stream,
+    cancel: tracker.cancelAll,
+  };
+};
@@ -0,0 +1,234 @@
+// src/services/providers/openAiProvider.ts
+
+import { buildConversationContext, buildProfileContext } from '../contextBuilder';
+import { TokenUsage } from '../../../types';
+import { AIProvider, ChatRequest, StreamChunkHandler, StreamResult } from './types';
+import { createRequestTracker, isStreamingResponse, readTextStream } from './streamUtils';
+import { AIRequestError, classifyFetchError, createHttpError, toAIRequestError } from './errors';
+import { DEFAULT_RETRY_OPTIONS, DEFAULT_TIMEOUT_MS, createAttemptSignal, withRetry } from './retry';
+
+interface OpenAiProviderConfig {
+  endpoint: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Terima base URL (".../v1") maupun URL lengkap (".../v1/chat/completions")
+const resolveCompletionsUrl = (endpoint: string): string => {
+  const trimmed = endpoint.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`;
+};
+
+const parseEvent = (payload: string): any => {
+  const trimmed = payload.trim();
+  if (!trimmed || trimmed === '[DONE]') return null;
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+};
+
+const extractUsage = (data: any): TokenUsage | undefined => {
+  const usage = data?.usage;
+  if (!usage || typeof usage.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') {
+    return undefined;
+  }
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+};
+
+// Ambil isi jawaban dari body non-streaming
+const extractCompletion = (data: any): string => {
+  if (!data || !Array.isArray(data.choices)) {
+    throw new AIRequestError('format', 'The response format was unexpected.', {
+      detail: 'Expected a chat completions response with a `choices` array.',
+    });
+  }
+
+  const content = data.choices[0]?.message?.content;
+  if (!content) {
+    throw new AIRequestError('empty', 'The AI response was empty.');
+  }
+  return content;
+};
+
+const parseJsonBody = async (response: Response): Promise<any> => {
+  const body = await response.text();
+  if (!body.trim()) {
+    throw new AIRequestError('empty', 'The AI returned an empty response.');
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new AIRequestError('format', 'The response was not valid JSON.', { detail: body.slice(0, 500) });
+  }
+};
+
+/**
+ * Provider for any OpenAI-compatible `/chat/completions` endpoint
+ * (OpenAI, local LLM gateways, vLLM, Ollama, LiteLLM, ...).
+ * Timeouts and retries work the same way as for the n8n provider.
+ */
+export const createOpenAiProvider = (config: OpenAiProviderConfig): AIProvider => {
+  const url = resolveCompletionsUrl(config.endpoint);
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retryOptions = { ...DEFAULT_RETRY_OPTIONS, maxRetries: config.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries };
+  const tracker = createRequestTracker();
+
+  const postCompletion = (request: ChatRequest, stream: boolean, signal: AbortSignal): Promise<Response> => {
+    const context = buildConversationContext(request.history || [], {
+      maxTokens: request.maxContextTokens,
+    });
+
+    const profileContext = buildProfileContext(request.profile);
+
+    const messages = [
+      ...(profileContext ? [{ role: 'system', content: profileContext }] : []),
+      ...(context.summary ? [{ role: 'system', content: context.summary }] : []),
+      ...context.history,
+      { role: 'user', content: request.message },
+    ];
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    return fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model || DEFAULT_MODEL,
+        messages,
+        stream,
+        // OpenAI-specific; other gateways ignore unknown fields
+        stream_options: stream ? { include_usage: true } : undefined,
+        user: request.conversationId || undefined,
+      }),
+      signal,
+    });
+  };
+
+  // Jalankan satu percobaan dengan timeout sendiri dan klasifikasikan error-nya
+  const runAttempt = async <T>(
+    signal: AbortSignal,
+    run: (attemptSignal: AbortSignal, touch: () => void) => Promise<T>
+  ): Promise<T> => {
+    const attempt = createAttemptSignal(signal, timeoutMs);
+    try {
+      return await run(attempt.signal, attempt.touch);
+    } catch (error) {
+      if (signal.aborted) throw error;
+      if (attempt.isTimedOut()) {
+        throw new AIRequestError('timeout', `No response from the endpoint within ${Math.round(timeoutMs / 1000)}s.`);
+      }
+      throw await classifyFetchError(error, url);
+    } finally {
+      attempt.clear();
+    }
+  };
+
+  const send = async (request: ChatRequest): Promise<string> => {
+    const { signal, end } = tracker.begin(request.signal);
+
+    try {
+      return await withRetry(
+        () =>
+          runAttempt(signal, async (attemptSignal) => {
+            const response = await postCompletion(request, false, attemptSignal);
+
+            if (!response.ok) {
+              throw await createHttpError(response);
+            }
+
+            return extractCompletion(await parseJsonBody(response));
+          }),
+        { ...retryOptions, signal, onRetry: request.onRetry }
+      );
+    } catch (error) {
+      console.error('Error sending message to chat completions endpoint:', error);
+      throw toAIRequestError(error);
+    } finally {
+      end();
+    }
+  };
+
+  const stream = async (request: ChatRequest, onChunk: StreamChunkHandler): Promise<StreamResult> => {
+    const { signal, end } = tracker.begin(request.signal);
+    let fullText = '';
+
+    try {
+      return await withRetry(
+        () =>
+          runAttempt(signal, async (attemptSignal, touch): Promise<StreamResult> => {
+            const response = await postCompletion(request, true, attemptSignal);
+
+            if (!response.ok) {
+              throw await createHttpError(response);
+            }
+
+            // Some gateways ignore `stream: true` and answer with a single JSON body
+            if (!isStreamingResponse(response)) {
+              const data = await parseJsonBody(response);
+              fullText = extractCompletion(data);
+              onChunk(fullText, fullText);
+              return { text: fullText, cancelled: false, model: data.model, usage: extractUsage(data) };
+            }
+
+            let model: string | undefined;
+            let usage: TokenUsage | undefined;
+
+            // With include_usage the last event has an empty `choices` and the token counts
+            const extractDelta = (payload: string): string => {
+              const data = parseEvent(payload);
+              if (!data) return '';
+              model = data.model || model;
+              usage = extractUsage(data) || usage;
+              return data.choices?.[0]?.delta?.content || '';
+            };
+
+            fullText = await readTextStream(response, extractDelta, (chunk, text) => {
+              touch();
+              fullText = text;
+              onChunk(chunk, text);
+            });
+
+            if (!fullText.trim()) {
+              throw new AIRequestError('empty', 'The AI response was empty.');
+            }
+
+            return { text: fullText, cancelled: false, model, usage };
+          }),
+        {
+          ...retryOptions,
+          signal,
+          onRetry: request.onRetry,
+          // Retrying after text has been shown would duplicate the answer
+          canRetry: () => !fullText,
+        }
+      );
+    } catch (error) {
+      if (signal.aborted) {
+        return { text: fullText, cancelled: true };
+      }
+      console.error('Error sending message to chat completions endpoint:', error);
+      const aiError = toAIRequestError(error);
+      aiError.partialText = fullText;
+      throw aiError;
+    } finally {
+      end();
+    }
+  };
+
+  return {
+    id: 'openai',
+    send,
+    stream,
+    cancel: tracker.cancelAll,
+  };
+};
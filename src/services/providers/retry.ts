@@ -0,0 +1,127 @@
+// src/services/providers/retry.ts
+
+import { AIRequestError, toAIRequestError } from './errors';
+import { RetryHandler } from './types';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+export const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Only transient failures are worth another attempt. Bad responses
+ * (empty, wrong format, 4xx) will fail the same way again.
+ */
+export const isRetryableError = (error: AIRequestError): boolean => {
+  if (error.kind === 'network' || error.kind === 'timeout') return true;
+  if (error.kind === 'http' && error.status !== undefined) {
+    return error.status >= 500 || error.status === 429;
+  }
+  return false;
+};
+
+// Exponential backoff with "full jitter" so retried clients don't hit the endpoint in lockstep
+export const getBackoffDelay = (retry: number, options: RetryOptions): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Signal for a single attempt. Aborts when the parent aborts, or when nothing
+ * has happened for `timeoutMs`; call `touch()` whenever data arrives to push
+ * the deadline back, so long streamed answers aren't cut off.
+ */
+export const createAttemptSignal = (parent: AbortSignal, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onParentAbort = () => controller.abort();
+  if (parent.aborted) controller.abort();
+  else parent.addEventListener('abort', onParentAbort, { once: true });
+
+  const touch = () => {
+    if (timeoutMs <= 0) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new DOMException('The request timed out.', 'TimeoutError'));
+    }, timeoutMs);
+  };
+
+  const clear = () => {
+    clearTimeout(timer);
+    parent.removeEventListener('abort', onParentAbort);
+  };
+
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    clear,
+    isTimedOut: () => timedOut,
+  };
+};
+
+interface WithRetryOptions extends RetryOptions {
+  // Aborting stops the retry loop, including any pending backoff delay
+  signal: AbortSignal;
+  onRetry?: RetryHandler;
+  // Extra veto, e.g. once part of the answer has already been shown
+  canRetry?: () => boolean;
+}
+
+/**
+ * Run `attempt` until it succeeds, fails with a non-retryable error, or
+ * runs out of retries. Errors thrown by `attempt` should already be classified.
+ */
+export const withRetry = async <T>(
+  attempt: (attemptNumber: number) => Promise<T>,
+  options: WithRetryOptions
+): Promise<T> => {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt(attemptNumber);
+    } catch (error) {
+      if (options.signal.aborted) throw error;
+
+      const aiError = toAIRequestError(error);
+      const retry = attemptNumber;
+      const canRetry =
+        retry <= options.maxRetries &&
+        isRetryableError(aiError) &&
+        (options.canRetry?.() ?? true);
+
+      if (!canRetry) throw aiError;
+
+      const delayMs = getBackoffDelay(retry, options);
+      console.warn(`Request failed (${aiError.kind}), retrying ${retry}/${options.maxRetries} in ${delayMs}ms`);
+      options.onRetry?.({ retry, maxRetries: options.maxRetries, delayMs, error: aiError });
+
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
@@ -0,0 +1,111 @@
+// src/services/providers/streamUtils.ts
+
+import { StreamChunkHandler } from './types';
+
+/**
+ * Track in-flight requests so a provider's `cancel()` can abort all of them.
+ * A caller-supplied signal is linked to the internal controller.
+ */
+export const createRequestTracker = () => {
+  const controllers = new Set<AbortController>();
+
+  const begin = (external?: AbortSignal) => {
+    const controller = new AbortController();
+    controllers.add(controller);
+
+    const onExternalAbort = () => controller.abort();
+    if (external) {
+      if (external.aborted) controller.abort();
+      else external.addEventListener('abort', onExternalAbort, { once: true });
+    }
+
+    const end = () => {
+      controllers.delete(controller);
+      external?.removeEventListener('abort', onExternalAbort);
+    };
+
+    return { signal: controller.signal, end };
+  };
+
+  const cancelAll = () => {
+    controllers.forEach(c => c.abort());
+    controllers.clear();
+  };
+
+  return { begin, cancelAll };
+};
+
+/**
+ * Read a streaming response body. Understands SSE and newline-delimited JSON;
+ * anything else is treated as plain chunked text.
+ * `extract` turns one event payload into text (return '' to skip it).
+ */
+export const readTextStream = async (
+  response: Response,
+  extract: (payload: string) => string,
+  onChunk: StreamChunkHandler
+): Promise<string> => {
+  const contentType = response.headers.get('content-type') || '';
+  const isEventStream = contentType.includes('text/event-stream');
+  const isNdjson = contentType.includes('ndjson');
+  const isLineBased = isEventStream || isNdjson;
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+
+  const emit = (chunk: string) => {
+    if (!chunk) return;
+    fullText += chunk;
+    onChunk(chunk, fullText);
+  };
+
+  const flushLines = (final: boolean) => {
+    const lines = buffer.split('\n');
+    buffer = final ? '' : lines.pop() || '';
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\r$/, '');
+      if (isEventStream) {
+        // Hanya baris `data:` yang berisi konten; `event:`, `id:` dan komentar diabaikan
+        if (line.startsWith('data:')) emit(extract(line.slice(5).replace(/^ /, '')));
+      } else {
+        emit(extract(line));
+      }
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const decoded = decoder.decode(value, { stream: true });
+
+    if (isLineBased) {
+      buffer += decoded;
+      flushLines(false);
+    } else {
+      emit(decoded);
+    }
+  }
+
+  if (isLineBased) {
+    buffer += decoder.decode();
+    flushLines(true);
+  } else {
+    emit(decoder.decode());
+  }
+
+  return fullText;
+};
+
+/**
+ * Whether a response should be read as a stream rather than a single body
+ */
+export const isStreamingResponse = (response: Response): boolean => {
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.body) return false;
+  if (contentType.includes('text/event-stream') || contentType.includes('ndjson')) return true;
+  return !contentType.includes('application/json');
+};
@@ -0,0 +1,62 @@
+// src/services/providers/types.ts
+
+import { Message, TokenUsage } from '../../../types';
+import { AIRequestError } from './errors';
+import { UserProfileContext } from '../contextBuilder';
+
+export type AIProviderId = 'n8n' | 'openai' | 'mock';
+
+export interface ChatRequest {
+  message: string;
+  conversationId?: string | null;
+  history?: Message[];
+  maxContextTokens?: number;
+  // Name, nickname and custom instructions from the user's profile
+  profile?: UserProfileContext | null;
+  signal?: AbortSignal;
+  // Sent with every attempt of this request so the backend can de-duplicate retries
+  idempotencyKey?: string;
+  onRetry?: RetryHandler;
+}
+
+export interface RetryInfo {
+  // 1-based number of the retry about to be made
+  retry: number;
+  maxRetries: number;
+  delayMs: number;
+  error: AIRequestError;
+}
+
+export type RetryHandler = (info: RetryInfo) => void;
+
+// Called with each new piece of text and the full text received so far
+export type StreamChunkHandler = (chunk: string, fullText: string) => void;
+
+export interface StreamResult {
+  text: string;
+  // True when the request was aborted by the caller; `text` holds whatever arrived before that
+  cancelled: boolean;
+  // Filled in by aiService
+  provider?: AIProviderId;
+  // As reported by the endpoint, when it does
+  model?: string;
+  usage?: TokenUsage;
+}
+
+export interface AIProvider {
+  readonly id: AIProviderId;
+  send: (request: ChatRequest) => Promise<string>;
+  stream: (request: ChatRequest, onChunk: StreamChunkHandler) => Promise<StreamResult>;
+  // Abort every request this provider currently has in flight
+  cancel: () => void;
+}
+
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  endpoint: string;
+  apiKey: string;
+  model: string;
+  // Seconds without any response data before an attempt is abandoned
+  timeoutSeconds: number;
+  maxRetries: number;
+}
@@ -0,0 +1,151 @@
+// src/services/realtimeService.ts
+
+import { supabase } from '../lib/supabaseClient';
+import { Conversation, Message } from '../../types';
+import {
+  ConversationMetadata,
+  ConversationRow,
+  MessageRow,
+  recordRemoteMessageChange,
+  toConversationMetadata,
+  toMessage,
+} from './supabaseStorageService';
+
+export type RemoteChange =
+  | { type: 'conversation-upsert'; conversation: ConversationMetadata }
+  | { type: 'conversation-delete'; conversationId: string }
+  | { type: 'message-upsert'; conversationId: string; message: Message }
+  | { type: 'message-delete'; conversationId: string; messageId: string };
+
+type Row = { [key: string]: any };
+
+/**
+ * Listen for changes to the user's conversations and messages, including the
+ * ones made by other tabs and devices. Returns an unsubscribe function.
+ * `getConversations` returns the conversations this client holds; delete events
+ * are only passed on for those.
+ */
+export const subscribeToRemoteChanges = (
+  userId: string,
+  getConversations: () => Conversation[],
+  onChange: (change: RemoteChange) => void
+): (() => void) => {
+  // RLS already limits inserts/updates to the user's own rows. Delete events skip RLS and
+  // can't be filtered on the server (they only carry the primary key), so they are matched
+  // against the conversations and messages this client has loaded instead.
+  const channel = supabase
+    .channel(`conversations:${userId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'conversations' }, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        const id = (payload.old as Row).id;
+        if (id && getConversations().some((c) => c.id === id)) {
+          onChange({ type: 'conversation-delete', conversationId: id });
+        }
+        return;
+      }
+
+      const row = payload.new as Row;
+      if (row.user_id && row.user_id !== userId) return;
+
+      onChange({ type: 'conversation-upsert', conversation: toConversationMetadata(row as ConversationRow) });
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        const id = (payload.old as Row).id;
+        const owner = id ? getConversations().find((c) => c.messages.some((m) => m.id === id)) : undefined;
+        if (!owner) return;
+        recordRemoteMessageChange(owner.id, id, null);
+        onChange({ type: 'message-delete', conversationId: owner.id, messageId: id });
+        return;
+      }
+
+      const row = payload.new as Row;
+      const message = toMessage(row as MessageRow);
+      recordRemoteMessageChange(row.conversation_id, message.id, message);
+      onChange({ type: 'message-upsert', conversationId: row.conversation_id, message });
+    })
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Realtime subscription failed:', status, error);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+const isSameMessage = (a: Message, b: Message) =>
+  a.text === b.text &&
+  a.sender === b.sender &&
+  (a.cancelled ?? false) === (b.cancelled ?? false) &&
+  (a.status ?? 'complete') === (b.status ?? 'complete');
+
+/**
+ * Merge one remote change into the conversation list. Returns the same array
+ * when nothing changed (e.g. the echo of this tab's own save), so React can skip the render.
+ * `busyMessageId` is the message this tab is generating; remote copies of it are ignored.
+ */
+export const applyRemoteChange = (
+  conversations: Conversation[],
+  change: RemoteChange,
+  busyMessageId: string | null
+): Conversation[] => {
+  switch (change.type) {
+    case 'conversation-upsert': {
+      const incoming = change.conversation;
+      const existing = conversations.find((c) => c.id === incoming.id);
+
+      if (!existing) {
+        return [
+          { ...incoming, messages: [], messagesLoaded: false, olderMessagesCursor: null },
+          ...conversations,
+        ];
+      }
+
+      // Older or equal version: our own save echoing back, or an out-of-order event
+      if (incoming.version !== undefined && existing.version !== undefined && incoming.version <= existing.version) {
+        return conversations;
+      }
+
+      return conversations.map((c) => (c.id === incoming.id ? { ...c, ...incoming } : c));
+    }
+
+    case 'conversation-delete': {
+      if (!conversations.some((c) => c.id === change.conversationId)) return conversations;
+      return conversations.filter((c) => c.id !== change.conversationId);
+    }
+
+    case 'message-upsert': {
+      const { conversationId, message } = change;
+      if (message.id === busyMessageId) return conversations;
+
+      const conversation = conversations.find((c) => c.id === conversationId);
+      // Not opened yet: its messages are fetched when it is
+      if (!conversation || conversation.messagesLoaded === false) return conversations;
+
+      const existing = conversation.messages.find((m) => m.id === message.id);
+      if (existing && isSameMessage(existing, message)) return conversations;
+
+      const messages = existing
+        ? conversation.messages.map((m) => (m.id === message.id ? { ...m, ...message } : m))
+        : [...conversation.messages, message];
+
+      return conversations.map((c) => (c.id === conversationId ? { ...c, messages } : c));
+    }
+
+    case 'message-delete': {
+      const owner = conversations.find((c) => c.id === change.conversationId);
+      if (!owner || change.messageId === busyMessageId || !owner.messages.some((m) => m.id === change.messageId)) {
+        return conversations;
+      }
+
+      return conversations.map((c) =>
+        c.id === owner.id ? { ...c, messages: c.messages.filter((m) => m.id !== change.messageId) } : c
+      );
+    }
+
+    default:
+      return conversations;
+  }
+};
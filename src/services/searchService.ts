@@ -0,0 +1,85 @@
+// src/services/searchService.ts
+
+import { supabase } from '../lib/supabaseClient';
+import { MessageSender } from '../../types';
+
+export interface SearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  conversationCreatedAt: string;
+  sender: MessageSender;
+  // Matched fragments, marked with HIGHLIGHT_START / HIGHLIGHT_END
+  snippet: string;
+  rank: number;
+  createdAt: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// Must match the StartSel/StopSel used by the search_messages function
+const HIGHLIGHT_START = '⟦';
+const HIGHLIGHT_END = '⟧';
+
+// Shorter queries match too much to be useful, so the sidebar doesn't search for them
+export const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Search the text of all the user's messages, best matches first
+ */
+export const searchMessages = async (query: string, maxResults: number = 30): Promise<SearchResult[]> => {
+  const trimmed = query.trim();
+  if (trimmed.length < MIN_QUERY_LENGTH) return [];
+
+  try {
+    const { data, error } = await supabase.rpc('search_messages', {
+      search_query: trimmed,
+      max_results: maxResults,
+    });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.conversation_title,
+      conversationCreatedAt: row.conversation_created_at,
+      sender: row.sender === 'user' ? MessageSender.User : MessageSender.AI,
+      snippet: row.snippet,
+      rank: row.rank,
+      createdAt: row.created_at,
+    }));
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    throw error;
+  }
+};
+
+/**
+ * Split a snippet into plain and highlighted parts for rendering.
+ * Markdown fences and runs of whitespace are collapsed so code reads on one line.
+ */
+export const parseSnippet = (snippet: string): SnippetPart[] => {
+  const cleaned = snippet.replace(/```\w*/g, ' ').replace(/\s+/g, ' ').trim();
+  const parts: SnippetPart[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_END}`, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(cleaned)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ text: cleaned.slice(lastIndex, match.index), highlighted: false });
+    }
+    parts.push({ text: match[1], highlighted: true });
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < cleaned.length) {
+    parts.push({ text: cleaned.slice(lastIndex), highlighted: false });
+  }
+
+  return parts;
+};
@@ -7,27 +7,19 @@ export interface StorageStats {
   totalMessages: number;
   usedStorageBytes: number;
   usedStorageMB: number;
+  maxStorageBytes: number;
   maxStorageMB: number;
   usagePercentage: number;
+  // Billing plan the limit comes from
+  plan: string;
 }
 
 /**
- * Calculate storage statistics from Supabase
+ * Calculate storage statistics from Supabase. Rejects when usage can't be measured,
+ * rather than reporting an empty account that would pass every quota check.
  */
 export const calculateStorageStats = async (): Promise<StorageStats> => {
-  try {
-    return await getSupabaseStats();
-  } catch (error) {
-    console.error('Error calculating storage stats:', error);
-    return {
-      totalConversations: 0,
-      totalMessages: 0,
-      usedStorageBytes: 0,
-      usedStorageMB: 0,
-      maxStorageMB: 100,
-      usagePercentage: 0,
-    };
-  }
+  return await getSupabaseStats();
 };
 
 /**
@@ -1,10 +1,350 @@
 // src/services/supabaseStorageService.ts
 
 import { supabase } from '../lib/supabaseClient';
-import { Conversation, Message, MessageSender } from '../../types';
+import { Conversation, Message, MessageAttachment, MessageSender, MessageStatus } from '../../types';
+import { withParentLinks } from './messageTree';
+
+export const CONVERSATION_PAGE_SIZE = 30;
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Usage fetched for the quota check is reused for this long; saves in between adjust it locally
+const STORAGE_USAGE_CACHE_MS = 60000;
+
+export interface ConversationPage {
+  conversations: Conversation[];
+  // Pass back to getConversationPage for the next page; null when there are no more
+  nextCursor: string | null;
+}
+
+export interface MessagePage {
+  // Oldest first
+  messages: Message[];
+  // Pass back to getMessagePage for older messages; null when the start of the thread is reached
+  nextCursor: number | null;
+}
+
+// Snapshot of what is stored in `messages` per conversation (message id -> fingerprint),
+// so saveConversation only writes rows that actually changed.
+const persistedMessages = new Map<string, Map<string, string>>();
+
+// Saves for the same conversation run one after another, so each one diffs against an up-to-date snapshot
+const pendingSaves = new Map<string, Promise<SaveResult>>();
+
+export interface StorageUsage {
+  usedBytes: number;
+  conversationCount: number;
+  messageCount: number;
+  plan: string;
+  limitBytes: number;
+}
+
+export interface ConversationStorage {
+  conversationId: string;
+  title: string;
+  createdAt: string;
+  messageCount: number;
+  usedBytes: number;
+}
 
 /**
- * Fetch all conversations for the current user
+ * Thrown by saveConversation when new messages would not fit in the user's plan
+ */
+export class StorageQuotaError extends Error {
+  usedBytes: number;
+  limitBytes: number;
+
+  constructor(usedBytes: number, limitBytes: number) {
+    super('Storage quota exceeded.');
+    this.name = 'StorageQuotaError';
+    this.usedBytes = usedBytes;
+    this.limitBytes = limitBytes;
+  }
+}
+
+export const isStorageQuotaError = (error: unknown): error is StorageQuotaError =>
+  error instanceof StorageQuotaError;
+
+// Raised by the track_message_storage trigger (configuration_limit_exceeded)
+const QUOTA_ERROR_CODE = '53400';
+
+// The trigger's error detail carries the usage it measured as JSON
+const fromQuotaTriggerError = (error: { details?: string | null }): StorageQuotaError => {
+  try {
+    const detail = JSON.parse(error.details ?? '{}');
+    return new StorageQuotaError(Number(detail.used_bytes) || 0, Number(detail.limit_bytes) || 0);
+  } catch {
+    return new StorageQuotaError(0, 0);
+  }
+};
+
+let cachedUsage: { userId: string; usage: StorageUsage; fetchedAt: number } | null = null;
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+/**
+ * Bytes a message takes in storage, counted the same way as `messages.size_bytes`
+ * (the server's jsonb formatting of attachments differs slightly)
+ */
+export const getMessageSizeBytes = (message: Pick<Message, 'text' | 'attachments'>): number =>
+  utf8Length(message.text) + utf8Length(JSON.stringify(message.attachments ?? []));
+
+const messageFingerprint = (msg: Pick<Message, 'text' | 'sender' | 'cancelled' | 'status'>): string =>
+  JSON.stringify([msg.text, msg.sender, msg.cancelled ?? false, msg.status ?? 'complete']);
+
+const rememberPersistedMessages = (conversationId: string, messages: Message[]) => {
+  persistedMessages.set(conversationId, new Map(messages.map((m) => [m.id, messageFingerprint(m)])));
+};
+
+// Every column the client maps into a Conversation (apart from its messages)
+const CONVERSATION_COLUMNS = 'id, title, created_at, version, active_leaf_id, pinned_at, archived_at, folder_id';
+
+export interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: string;
+  version?: number | null;
+  active_leaf_id?: string | null;
+  pinned_at?: string | null;
+  archived_at?: string | null;
+  folder_id?: string | null;
+}
+
+export type ConversationMetadata = Omit<Conversation, 'messages' | 'messagesLoaded' | 'olderMessagesCursor'>;
+
+/**
+ * Map a `conversations` row (from a query or a realtime event) to conversation metadata
+ */
+export const toConversationMetadata = (row: ConversationRow): ConversationMetadata => ({
+  id: row.id,
+  title: row.title,
+  createdAt: row.created_at,
+  version: row.version ?? undefined,
+  activeLeafId: row.active_leaf_id ?? null,
+  pinnedAt: row.pinned_at ?? null,
+  archivedAt: row.archived_at ?? null,
+  folderId: row.folder_id ?? null,
+});
+
+// Every column the client maps into a Message
+const MESSAGE_COLUMNS =
+  'id, text, sender, cancelled, parent_id, created_at, status, latency_ms, provider, model, prompt_tokens, completion_tokens, attachments';
+
+export interface MessageRow {
+  id: string;
+  text: string;
+  sender: string;
+  cancelled?: boolean | null;
+  parent_id?: string | null;
+  created_at?: string | null;
+  status?: string | null;
+  latency_ms?: number | null;
+  provider?: string | null;
+  model?: string | null;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  attachments?: MessageAttachment[] | null;
+}
+
+const toMessageRow = (conversationId: string, msg: Message) => ({
+  id: msg.id,
+  conversation_id: conversationId,
+  text: msg.text,
+  sender: msg.sender === MessageSender.User ? 'user' : 'ai',
+  cancelled: msg.cancelled ?? false,
+  parent_id: msg.parentId ?? null,
+  status: msg.status ?? (msg.cancelled ? 'cancelled' : 'complete'),
+  latency_ms: msg.latencyMs ?? null,
+  provider: msg.provider ?? null,
+  model: msg.model ?? null,
+  prompt_tokens: msg.usage?.promptTokens ?? null,
+  completion_tokens: msg.usage?.completionTokens ?? null,
+  attachments: msg.attachments ?? [],
+});
+
+/**
+ * Map a `messages` row (from a query or a realtime event) to a Message.
+ * Columns that are null are left out rather than set to undefined.
+ */
+export const toMessage = (row: MessageRow): Message => {
+  const message: Message = {
+    id: row.id,
+    text: row.text,
+    sender: row.sender === 'user' ? MessageSender.User : MessageSender.AI,
+    cancelled: row.cancelled ?? false,
+    parentId: row.parent_id ?? null,
+    status: (row.status as MessageStatus | null) ?? (row.cancelled ? 'cancelled' : 'complete'),
+  };
+
+  if (row.created_at) message.createdAt = row.created_at;
+  if (row.latency_ms != null) message.latencyMs = row.latency_ms;
+  if (row.provider) message.provider = row.provider;
+  if (row.model) message.model = row.model;
+  if (row.prompt_tokens != null && row.completion_tokens != null) {
+    message.usage = { promptTokens: row.prompt_tokens, completionTokens: row.completion_tokens };
+  }
+  if (row.attachments && row.attachments.length > 0) message.attachments = row.attachments;
+
+  return message;
+};
+
+// Cursor percakapan: "<created_at>|<id>", id sebagai tie-breaker
+const encodeConversationCursor = (row: { created_at: string; id: string }) => `${row.created_at}|${row.id}`;
+
+const decodeConversationCursor = (cursor: string) => {
+  const [createdAt, id] = cursor.split('|');
+  return { createdAt, id };
+};
+
+// Dipakai kalau snapshot belum ada, mis. percakapan baru atau save pertama setelah error.
+// Only rows the client knows about are returned: rows it never loaded (older pages, or
+// messages added on another device) must not be mistaken for messages it deleted.
+const fetchPersistedMessages = async (conversationId: string, knownIds: string[]): Promise<Map<string, string>> => {
+  const ids = [...new Set(knownIds)];
+  const persisted = new Map<string, string>();
+  // Chunked so the id list stays within URL length limits
+  const chunkSize = 100;
+
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from('messages')
+      // Only what messageFingerprint needs
+      .select('id, text, sender, cancelled, status')
+      .eq('conversation_id', conversationId)
+      .in('id', ids.slice(i, i + chunkSize));
+
+    if (error) throw error;
+
+    (data || []).forEach((row) => {
+      persisted.set(row.id, messageFingerprint({
+        text: row.text,
+        sender: row.sender === 'user' ? MessageSender.User : MessageSender.AI,
+        cancelled: row.cancelled ?? false,
+        status: (row.status as MessageStatus | null) ?? (row.cancelled ? 'cancelled' : 'complete'),
+      }));
+    });
+  }
+
+  return persisted;
+};
+
+/**
+ * Fetch one page of conversation metadata for the sidebar, newest first.
+ * Messages are not included; load them with getMessagePage when a conversation is opened.
+ */
+export const getConversationPage = async (
+  cursor: string | null = null,
+  limit: number = CONVERSATION_PAGE_SIZE
+): Promise<ConversationPage> => {
+  try {
+    let query = supabase
+      .from('conversations')
+      .select(CONVERSATION_COLUMNS)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor) {
+      const { createdAt, id } = decodeConversationCursor(cursor);
+      query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const pageRows = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      conversations: pageRows.map((row) => ({
+        ...toConversationMetadata(row),
+        messages: [],
+        messagesLoaded: false,
+        olderMessagesCursor: null,
+      })),
+      nextCursor: hasMore ? encodeConversationCursor(pageRows[pageRows.length - 1]) : null,
+    };
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Metadata of every pinned, archived or filed conversation. The sidebar shows these
+ * in their own sections, so they are loaded in full rather than page by page.
+ */
+export const getOrganizedConversations = async (): Promise<Conversation[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select(CONVERSATION_COLUMNS)
+      .or('pinned_at.not.is.null,archived_at.not.is.null,folder_id.not.is.null')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row) => ({
+      ...toConversationMetadata(row),
+      messages: [],
+      messagesLoaded: false,
+      olderMessagesCursor: null,
+    }));
+  } catch (error) {
+    console.error('Error fetching organized conversations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the newest messages of a conversation, or the page before `before`
+ */
+export const getMessagePage = async (
+  conversationId: string,
+  before: number | null = null,
+  limit: number = MESSAGE_PAGE_SIZE
+): Promise<MessagePage> => {
+  try {
+    let query = supabase
+      .from('messages')
+      .select(`${MESSAGE_COLUMNS}, seq`)
+      .eq('conversation_id', conversationId)
+      .order('seq', { ascending: false })
+      .limit(limit + 1);
+
+    if (before !== null) {
+      query = query.lt('seq', before);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const pageRows = (hasMore ? rows.slice(0, limit) : rows).reverse();
+    const messages = pageRows.map(toMessage);
+
+    // Older pages extend the snapshot instead of replacing it
+    const snapshot = before !== null ? persistedMessages.get(conversationId) : undefined;
+    if (snapshot) {
+      messages.forEach((m) => snapshot.set(m.id, messageFingerprint(m)));
+    } else {
+      rememberPersistedMessages(conversationId, messages);
+    }
+
+    return {
+      messages,
+      nextCursor: hasMore ? pageRows[0].seq : null,
+    };
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch all conversations for the current user, with every message.
+ * Heavy; the UI uses getConversationPage and getMessagePage instead.
  */
 export const getConversations = async (): Promise<Conversation[]> => {
   try {
@@ -14,51 +354,75 @@ export const getConversations = async (): Promise<Conversation[]> => {
       .order('created_at', { ascending: false });
 
     if (convError) throw convError;
-    if (!conversationsData) return [];
-
-    // Fetch messages for each conversation
-    const conversationsWithMessages = await Promise.all(
-      conversationsData.map(async (conv) => {
-        const { data: messagesData, error: msgError } = await supabase
-          .from('messages')
-          .select('*')
-          .eq('conversation_id', conv.id)
-          .order('created_at', { ascending: true });
-
-        if (msgError) {
-          console.error('Error fetching messages:', msgError);
-          return {
-            id: conv.id,
-            title: conv.title,
-            messages: [],
-            createdAt: conv.created_at,
-          };
-        }
+    if (!conversationsData || conversationsData.length === 0) return [];
 
-        const messages: Message[] = (messagesData || []).map((msg) => ({
-          id: msg.id,
-          text: msg.text,
-          sender: msg.sender === 'user' ? MessageSender.User : MessageSender.AI,
-        }));
-
-        return {
-          id: conv.id,
-          title: conv.title,
-          messages,
-          createdAt: conv.created_at,
-        };
-      })
-    );
+    // One query for all messages instead of one per conversation
+    const { data: messagesData, error: msgError } = await supabase
+      .from('messages')
+      .select(`${MESSAGE_COLUMNS}, conversation_id`)
+      .in('conversation_id', conversationsData.map((conv) => conv.id))
+      .order('seq', { ascending: true });
 
-    return conversationsWithMessages;
+    if (msgError) throw msgError;
+
+    const messagesByConversation = new Map<string, Message[]>();
+    (messagesData || []).forEach((row) => {
+      const list = messagesByConversation.get(row.conversation_id) || [];
+      list.push(toMessage(row));
+      messagesByConversation.set(row.conversation_id, list);
+    });
+
+    return conversationsData.map((conv) => {
+      const messages = messagesByConversation.get(conv.id) || [];
+      rememberPersistedMessages(conv.id, messages);
+
+      return {
+        ...toConversationMetadata(conv),
+        messages,
+        messagesLoaded: true,
+        olderMessagesCursor: null,
+      };
+    });
   } catch (error) {
     console.error('Error fetching conversations:', error);
     return [];
   }
 };
 
+// Supabase caps a response at 1000 rows by default
+const FULL_FETCH_BATCH_SIZE = 1000;
+
 /**
- * Get a single conversation by ID
+ * Every message of a conversation, oldest first, fetched in batches
+ */
+export const getAllMessages = async (conversationId: string): Promise<Message[]> => {
+  const messages: Message[] = [];
+  let afterSeq: number | null = null;
+
+  for (;;) {
+    let query = supabase
+      .from('messages')
+      .select(`${MESSAGE_COLUMNS}, seq`)
+      .eq('conversation_id', conversationId)
+      .order('seq', { ascending: true })
+      .limit(FULL_FETCH_BATCH_SIZE);
+
+    if (afterSeq !== null) {
+      query = query.gt('seq', afterSeq);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = data || [];
+    messages.push(...rows.map(toMessage));
+    if (rows.length < FULL_FETCH_BATCH_SIZE) return messages;
+    afterSeq = rows[rows.length - 1].seq;
+  }
+};
+
+/**
+ * Get a single conversation by ID, with every message
  */
 export const getConversation = async (id: string): Promise<Conversation | null> => {
   try {
@@ -70,28 +434,21 @@ export const getConversation = async (id: string): Promise<Conversation | null>
 
     if (convError || !convData) return null;
 
-    const { data: messagesData, error: msgError } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('conversation_id', id)
-      .order('created_at', { ascending: true });
-
-    if (msgError) {
+    let messages: Message[];
+    try {
+      messages = await getAllMessages(id);
+    } catch (msgError) {
       console.error('Error fetching messages:', msgError);
       return null;
     }
 
-    const messages: Message[] = (messagesData || []).map((msg) => ({
-      id: msg.id,
-      text: msg.text,
-      sender: msg.sender === 'user' ? MessageSender.User : MessageSender.AI,
-    }));
+    rememberPersistedMessages(convData.id, messages);
 
     return {
-      id: convData.id,
-      title: convData.title,
+      ...toConversationMetadata(convData),
       messages,
-      createdAt: convData.created_at,
+      messagesLoaded: true,
+      olderMessagesCursor: null,
     };
   } catch (error) {
     console.error('Error fetching conversation:', error);
@@ -99,69 +456,271 @@ export const getConversation = async (id: string): Promise<Conversation | null>
   }
 };
 
+interface MessageWrites {
+  conversationId: string;
+  messages: Message[];
+  newMessages: Message[];
+  changedMessages: Message[];
+  removedIds: string[];
+}
+
+/**
+ * Work out which messages are new, changed or gone since the last save.
+ * `persistedMessageIds` stands in for the in-memory snapshot after a reload.
+ */
+const planMessageWrites = async (conversation: Conversation, persistedMessageIds: string[]): Promise<MessageWrites> => {
+  const messages = withParentLinks(conversation.messages);
+  const persisted =
+    persistedMessages.get(conversation.id) ??
+    (await fetchPersistedMessages(conversation.id, [...messages.map((m) => m.id), ...persistedMessageIds]));
+
+  const currentIds = new Set(messages.map((m) => m.id));
+  return {
+    conversationId: conversation.id,
+    messages,
+    newMessages: messages.filter((m) => !persisted.has(m.id)),
+    changedMessages: messages.filter((m) => persisted.has(m.id) && persisted.get(m.id) !== messageFingerprint(m)),
+    removedIds: [...persisted.keys()].filter((id) => !currentIds.has(id)),
+  };
+};
+
+/**
+ * Write only the messages that are new or changed since the last save,
+ * then delete the ones that are gone.
+ */
+const persistMessages = async ({ conversationId, messages, newMessages, changedMessages, removedIds }: MessageWrites): Promise<void> => {
+  if (newMessages.length > 0) {
+    // Messages created before createdAt was tracked get strictly increasing timestamps
+    const now = Date.now();
+    const { error } = await supabase
+      .from('messages')
+      .upsert(
+        newMessages.map((msg, index) => ({
+          ...toMessageRow(conversationId, msg),
+          created_at: msg.createdAt ?? new Date(now + index).toISOString(),
+        })),
+        { onConflict: 'id' }
+      );
+
+    if (error) throw error.code === QUOTA_ERROR_CODE ? fromQuotaTriggerError(error) : error;
+  }
+
+  if (changedMessages.length > 0) {
+    // No created_at here, so the original position in the conversation is kept
+    const { error } = await supabase
+      .from('messages')
+      .upsert(changedMessages.map((msg) => toMessageRow(conversationId, msg)), { onConflict: 'id' });
+
+    if (error) throw error;
+  }
+
+  // Deletes go last: if a write above fails, nothing has been lost yet
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('messages')
+      .delete()
+      .eq('conversation_id', conversationId)
+      .in('id', removedIds);
+
+    if (error) throw error;
+  }
+
+  rememberPersistedMessages(conversationId, messages);
+};
+
+const getCachedStorageUsage = async (userId: string): Promise<StorageUsage> => {
+  if (cachedUsage?.userId === userId && Date.now() - cachedUsage.fetchedAt < STORAGE_USAGE_CACHE_MS) {
+    return cachedUsage.usage;
+  }
+  const usage = await getStorageUsage();
+  cachedUsage = { userId, usage, fetchedAt: Date.now() };
+  return usage;
+};
+
 /**
- * Save or update a conversation
+ * Reject saves that add messages once the plan's quota is used up.
+ * Updating or deleting existing messages is always allowed, so users can still free up space.
+ * When usage can't be fetched the save goes ahead and the server's quota trigger decides.
  */
-export const saveConversation = async (conversation: Conversation): Promise<void> => {
+const assertWithinQuota = async (userId: string, writes: MessageWrites): Promise<number> => {
+  const addedBytes = writes.newMessages.reduce((sum, m) => sum + getMessageSizeBytes(m), 0);
+  if (addedBytes === 0) return 0;
+
+  let usage: StorageUsage;
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
+    usage = await getCachedStorageUsage(userId);
+  } catch (error) {
+    console.warn('Storage usage unknown, leaving the quota check to the server:', error);
+    return addedBytes;
+  }
+  if (usage.usedBytes + addedBytes > usage.limitBytes) {
+    throw new StorageQuotaError(usage.usedBytes, usage.limitBytes);
+  }
+  return addedBytes;
+};
 
-    // Check if conversation exists
-    const { data: existing } = await supabase
+export interface SaveResult {
+  // Version of the conversation after this save
+  version: number;
+  // True when someone else saved since the version this client last saw
+  conflict: boolean;
+}
+
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Insert the conversation row at version 1. Returns false when another tab
+ * created it first (unique violation).
+ */
+const insertConversationRow = async (conversation: Conversation, userId: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('conversations')
+    .insert({
+      id: conversation.id,
+      user_id: userId,
+      title: conversation.title,
+      created_at: conversation.createdAt,
+      updated_at: new Date().toISOString(),
+      version: 1,
+      active_leaf_id: conversation.activeLeafId ?? null,
+      pinned_at: conversation.pinnedAt ?? null,
+      archived_at: conversation.archivedAt ?? null,
+      folder_id: conversation.folderId ?? null,
+    });
+
+  if (!error) return true;
+  if (error.code !== '23505') throw error;
+  return false;
+};
+
+/**
+ * Create the conversation row, or bump its version with a compare-and-swap
+ * so two tabs saving at once can't both claim the same version
+ */
+const writeConversationRow = async (conversation: Conversation, userId: string): Promise<SaveResult> => {
+  const updatedAt = new Date().toISOString();
+
+  for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+    const { data: existing, error: fetchError } = await supabase
       .from('conversations')
-      .select('id')
+      .select('version')
       .eq('id', conversation.id)
-      .single();
+      .maybeSingle();
 
-    if (existing) {
-      // Update existing conversation
-      const { error: updateError } = await supabase
-        .from('conversations')
-        .update({
-          title: conversation.title,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', conversation.id);
+    if (fetchError) throw fetchError;
 
-      if (updateError) throw updateError;
-    } else {
-      // Insert new conversation
-      const { error: insertError } = await supabase
-        .from('conversations')
-        .insert({
-          id: conversation.id,
-          user_id: user.id,
-          title: conversation.title,
-          created_at: conversation.createdAt,
-        });
-
-      if (insertError) throw insertError;
+    if (!existing) {
+      if (await insertConversationRow(conversation, userId)) return { version: 1, conflict: false };
+      // Created elsewhere in the meantime; update it instead
+      continue;
     }
 
-    // Delete existing messages and insert new ones
-    await supabase
-      .from('messages')
-      .delete()
-      .eq('conversation_id', conversation.id);
-
-    if (conversation.messages.length > 0) {
-      const messagesToInsert = conversation.messages.map((msg) => ({
-        id: msg.id,
-        conversation_id: conversation.id,
-        text: msg.text,
-        sender: msg.sender === MessageSender.User ? 'user' : 'ai',
-      }));
+    const { data: updated, error: updateError } = await supabase
+      .from('conversations')
+      .update({
+        title: conversation.title,
+        updated_at: updatedAt,
+        version: existing.version + 1,
+        active_leaf_id: conversation.activeLeafId ?? null,
+        pinned_at: conversation.pinnedAt ?? null,
+        archived_at: conversation.archivedAt ?? null,
+        folder_id: conversation.folderId ?? null,
+      })
+      .eq('id', conversation.id)
+      .eq('version', existing.version)
+      .select('version');
 
-      const { error: msgInsertError } = await supabase
-        .from('messages')
-        .insert(messagesToInsert);
+    if (updateError) throw updateError;
 
-      if (msgInsertError) throw msgInsertError;
+    if (updated && updated.length > 0) {
+      return {
+        version: existing.version + 1,
+        conflict: conversation.version !== undefined && conversation.version !== existing.version,
+      };
     }
-  } catch (error) {
-    console.error('Error saving conversation:', error);
-    throw error;
+    // Lost the race against another save; read the new version and try again
+  }
+
+  throw new Error('Conversation is being modified elsewhere, please try again.');
+};
+
+/**
+ * Save or update a conversation. `conversation.version` should be the version
+ * this client last saw; a different server version is reported as a conflict.
+ * Messages are merged either way (see persistMessages). `persistedMessageIds` are
+ * messages this client saw on the server in an earlier session; without them only
+ * messages loaded in this session can be deleted.
+ */
+export const saveConversation = async (
+  conversation: Conversation,
+  persistedMessageIds: string[] = []
+): Promise<SaveResult> => {
+  const previousSave = pendingSaves.get(conversation.id) ?? Promise.resolve();
+
+  const save = previousSave
+    .catch(() => {})
+    .then(async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('User not authenticated');
+
+        // Renaming, pinning etc. a conversation that was never opened only touches its row
+        if (conversation.messagesLoaded === false) {
+          return await writeConversationRow(conversation, user.id);
+        }
+
+        const writes = await planMessageWrites(conversation, persistedMessageIds);
+        const addedBytes = await assertWithinQuota(user.id, writes);
+
+        // Messages need their conversation row, but an existing row's version is only
+        // bumped once they are written, so other tabs never see a version without its messages
+        const { data: existing, error: fetchError } = await supabase
+          .from('conversations')
+          .select('id')
+          .eq('id', conversation.id)
+          .maybeSingle();
+
+        if (fetchError) throw fetchError;
+
+        const created = !existing && (await insertConversationRow(conversation, user.id));
+        await persistMessages(writes);
+        const result = created ? { version: 1, conflict: false } : await writeConversationRow(conversation, user.id);
+
+        if (cachedUsage?.userId === user.id) {
+          // Removed messages free an unknown amount; fetch the real usage next time
+          cachedUsage = writes.removedIds.length > 0
+            ? null
+            : { ...cachedUsage, usage: { ...cachedUsage.usage, usedBytes: cachedUsage.usage.usedBytes + addedBytes } };
+        }
+        return result;
+      } catch (error) {
+        // Snapshot mungkin sudah tidak sesuai dengan database; ambil ulang di save berikutnya
+        persistedMessages.delete(conversation.id);
+        console.error('Error saving conversation:', error);
+        throw error;
+      }
+    });
+
+  pendingSaves.set(conversation.id, save);
+  try {
+    return await save;
+  } finally {
+    if (pendingSaves.get(conversation.id) === save) {
+      pendingSaves.delete(conversation.id);
+    }
+  }
+};
+
+/**
+ * Keep the persisted-message snapshot in line with changes made by another tab
+ * or device, so the next save doesn't rewrite or re-delete them
+ */
+export const recordRemoteMessageChange = (conversationId: string, messageId: string, message: Message | null): void => {
+  const snapshot = persistedMessages.get(conversationId);
+  if (message) {
+    snapshot?.set(messageId, messageFingerprint(message));
+  } else {
+    snapshot?.delete(messageId);
   }
 };
 
@@ -176,6 +735,8 @@ export const deleteConversation = async (id: string): Promise<void> => {
       .eq('id', id);
 
     if (error) throw error;
+    persistedMessages.delete(id);
+    cachedUsage = null;
   } catch (error) {
     console.error('Error deleting conversation:', error);
     throw error;
@@ -196,6 +757,8 @@ export const deleteAllConversations = async (): Promise<void> => {
       .eq('user_id', user.id);
 
     if (error) throw error;
+    persistedMessages.clear();
+    cachedUsage = null;
   } catch (error) {
     console.error('Error deleting all conversations:', error);
     throw error;
@@ -203,69 +766,112 @@ export const deleteAllConversations = async (): Promise<void> => {
 };
 
 /**
- * Get storage statistics
+ * Which of the given conversation ids already exist for the current user
  */
-export const getStorageStats = async () => {
+export const getExistingConversationIds = async (ids: string[]): Promise<Set<string>> => {
+  const existing = new Set<string>();
+  // Chunked so the id list stays within URL length limits
+  const chunkSize = 100;
+
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      return {
-        totalConversations: 0,
-        totalMessages: 0,
-        usedStorageBytes: 0,
-        usedStorageMB: 0,
-        maxStorageMB: 100,
-        usagePercentage: 0,
-      };
+    for (let i = 0; i < ids.length; i += chunkSize) {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('id')
+        .in('id', ids.slice(i, i + chunkSize));
+
+      if (error) throw error;
+      (data || []).forEach((row) => existing.add(row.id));
     }
+    return existing;
+  } catch (error) {
+    console.error('Error checking existing conversations:', error);
+    throw error;
+  }
+};
 
-    // Count conversations
-    const { count: convCount } = await supabase
-      .from('conversations')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id);
+/**
+ * Storage used by the current user, measured on the server, and the limit of their plan
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  try {
+    const { data, error } = await supabase.rpc('get_storage_usage').single();
+    if (error) throw error;
 
-    // Count messages
-    const { data: conversations } = await supabase
-      .from('conversations')
-      .select('id')
-      .eq('user_id', user.id);
+    const row = data as {
+      used_bytes: number;
+      conversation_count: number;
+      message_count: number;
+      plan: string;
+      limit_bytes: number;
+    };
+    // bigint columns may arrive as strings
+    return {
+      usedBytes: Number(row.used_bytes),
+      conversationCount: Number(row.conversation_count),
+      messageCount: Number(row.message_count),
+      plan: row.plan,
+      limitBytes: Number(row.limit_bytes),
+    };
+  } catch (error) {
+    console.error('Error fetching storage usage:', error);
+    throw error;
+  }
+};
 
-    let totalMessages = 0;
-    if (conversations && conversations.length > 0) {
-      const convIds = conversations.map(c => c.id);
-      const { count: msgCount } = await supabase
-        .from('messages')
-        .select('*', { count: 'exact', head: true })
-        .in('conversation_id', convIds);
+/**
+ * The current user's biggest conversations, largest first
+ */
+export const getConversationStorage = async (maxResults: number = 10): Promise<ConversationStorage[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_conversation_storage', { max_results: maxResults });
+    if (error) throw error;
 
-      totalMessages = msgCount || 0;
-    }
+    return ((data || []) as {
+      conversation_id: string;
+      title: string;
+      created_at: string;
+      message_count: number;
+      used_bytes: number;
+    }[]).map((row) => ({
+      conversationId: row.conversation_id,
+      title: row.title,
+      createdAt: row.created_at,
+      messageCount: Number(row.message_count),
+      usedBytes: Number(row.used_bytes),
+    }));
+  } catch (error) {
+    console.error('Error fetching conversation storage:', error);
+    throw error;
+  }
+};
 
-    // Estimate storage (rough approximation)
-    const avgMessageSize = 500; // bytes
-    const usedStorageBytes = totalMessages * avgMessageSize;
-    const usedStorageMB = usedStorageBytes / (1024 * 1024);
-    const maxStorageMB = 100;
-    const usagePercentage = Math.min((usedStorageMB / maxStorageMB) * 100, 100);
+/**
+ * Get storage statistics
+ */
+export const getStorageStats = async () => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const usage = await getStorageUsage();
+    cachedUsage = { userId: user.id, usage, fetchedAt: Date.now() };
+
+    const usedStorageMB = usage.usedBytes / (1024 * 1024);
+    const maxStorageMB = usage.limitBytes / (1024 * 1024);
 
     return {
-      totalConversations: convCount || 0,
-      totalMessages,
-      usedStorageBytes,
+      totalConversations: usage.conversationCount,
+      totalMessages: usage.messageCount,
+      usedStorageBytes: usage.usedBytes,
       usedStorageMB,
+      maxStorageBytes: usage.limitBytes,
       maxStorageMB,
-      usagePercentage,
+      usagePercentage: Math.min((usage.usedBytes / usage.limitBytes) * 100, 100),
+      plan: usage.plan,
     };
   } catch (error) {
     console.error('Error getting storage stats:', error);
-    return {
-      totalConversations: 0,
-      totalMessages: 0,
-      usedStorageBytes: 0,
-      usedStorageMB: 0,
-      maxStorageMB: 100,
-      usagePercentage: 0,
-    };
+    throw error;
   }
-};
\ No newline at end of file
+};
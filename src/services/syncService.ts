@@ -0,0 +1,482 @@
+// src/services/syncService.ts
+
+import { Conversation } from '../../types';
+import * as supabaseStorage from './supabaseStorageService';
+import {
+  CachedConversation,
+  SyncOperation,
+  clearUserCache,
+  completeSyncOperation,
+  deleteCachedConversation,
+  enqueueSyncOperation,
+  getCachedConversation,
+  getCachedConversations,
+  getSyncOperations,
+  putCachedConversation,
+  recordSyncFailure,
+  resetSyncAttempts,
+} from './localCache';
+
+/**
+ * Offline-first conversation storage. Writes land in IndexedDB first and are
+ * pushed to Supabase by a background queue, so a dropped connection no longer
+ * loses messages.
+ *
+ * Conflicts (the same conversation changed on another device while this one
+ * had unsynced writes) are resolved per message: saveConversation only upserts
+ * our new/changed messages and deletes the ones we truncated, so messages added
+ * elsewhere survive and ours win where both sides changed the same message.
+ * Afterwards the merged server state is adopted locally.
+ */
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  // Queued writes, including failed ones
+  pendingCount: number;
+  // Writes that keep failing for a reason other than connectivity
+  failedCount: number;
+  // The last sync attempt was rejected because the storage quota is full
+  storageFull: boolean;
+}
+
+const INITIAL_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+// Past this, a write is only retried after the app is reloaded
+const MAX_SYNC_ATTEMPTS = 5;
+
+let currentUserId: string | null = null;
+let flushPromise: Promise<void> | null = null;
+let flushRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let retryDelayMs = INITIAL_RETRY_DELAY_MS;
+
+let status: SyncStatus = {
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isSyncing: false,
+  pendingCount: 0,
+  failedCount: 0,
+  storageFull: false,
+};
+
+const updateStatus = (patch: Partial<SyncStatus>) => {
+  status = { ...status, ...patch };
+  window.dispatchEvent(new CustomEvent('sync-status-change', { detail: status }));
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+// Supabase membungkus "Failed to fetch" di dalam objek error, jadi cek pesannya juga
+const isConnectivityError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  if (error instanceof TypeError) return true;
+  const message = String((error as { message?: unknown })?.message ?? error);
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+const toCachedConversation = (
+  userId: string,
+  conversation: Conversation,
+  pendingSync: boolean,
+  baseVersion: number | null
+): CachedConversation => ({
+  ...conversation,
+  messages: conversation.messages.filter((m) => !m.error),
+  userId,
+  pendingSync,
+  baseVersion,
+});
+
+const fromCachedConversation = ({
+  userId,
+  pendingSync,
+  baseVersion,
+  persistedMessageIds,
+  ...conversation
+}: CachedConversation): Conversation => conversation;
+
+const messageIds = (conversation: Conversation) => conversation.messages.map((m) => m.id);
+
+const refreshQueueStatus = async (userId: string) => {
+  const remaining = await getSyncOperations(userId);
+  updateStatus({
+    pendingCount: remaining.length,
+    failedCount: remaining.filter((op) => op.attempts > 0).length,
+  });
+  return remaining;
+};
+
+const scheduleRetry = () => {
+  clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    flushSyncQueue();
+  }, retryDelayMs);
+  retryDelayMs = Math.min(retryDelayMs * 2, MAX_RETRY_DELAY_MS);
+};
+
+const applyOperation = async (operation: SyncOperation): Promise<void> => {
+  if (operation.type === 'delete') {
+    await supabaseStorage.deleteConversation(operation.conversationId);
+    return;
+  }
+
+  const cached = await getCachedConversation(operation.conversationId);
+  // Deleted locally after the save was queued; the delete operation replaced it
+  if (!cached) return;
+
+  const { version, conflict } = await supabaseStorage.saveConversation(
+    { ...fromCachedConversation(cached), version: cached.baseVersion ?? undefined },
+    cached.persistedMessageIds
+  );
+  const persistedMessageIds = cached.messagesLoaded === false ? cached.persistedMessageIds : messageIds(cached);
+  let synced: CachedConversation = { ...cached, version, pendingSync: false, baseVersion: version, persistedMessageIds };
+
+  if (conflict) {
+    const page = await supabaseStorage.getMessagePage(operation.conversationId);
+    synced = {
+      ...synced,
+      messages: page.messages,
+      messagesLoaded: true,
+      olderMessagesCursor: page.nextCursor,
+      persistedMessageIds: page.messages.map((m) => m.id),
+    };
+  }
+
+  // The user may have written again while this was in flight; keep that newer copy pending
+  const latest = await getCachedConversation(operation.conversationId);
+  if (!latest) return;
+  if (
+    JSON.stringify(latest.messages) !== JSON.stringify(cached.messages) ||
+    latest.title !== cached.title ||
+    latest.activeLeafId !== cached.activeLeafId ||
+    latest.pinnedAt !== cached.pinnedAt ||
+    latest.archivedAt !== cached.archivedAt ||
+    latest.folderId !== cached.folderId
+  ) {
+    await putCachedConversation({ ...latest, baseVersion: version, persistedMessageIds });
+    return;
+  }
+
+  await putCachedConversation(synced);
+
+  if (conflict) {
+    window.dispatchEvent(
+      new CustomEvent('conversation-synced', { detail: { conversation: fromCachedConversation(synced) } })
+    );
+  }
+};
+
+const runFlush = async (): Promise<void> => {
+  const userId = currentUserId;
+  if (!userId) return;
+
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    updateStatus({ isOnline: false });
+    return;
+  }
+
+  updateStatus({ isOnline: true, isSyncing: true });
+  let stoppedByConnectivity = false;
+  let rejectedByQuota = false;
+
+  try {
+    const operations = await getSyncOperations(userId);
+
+    for (const operation of operations) {
+      if (currentUserId !== userId) break;
+      if (operation.attempts >= MAX_SYNC_ATTEMPTS) continue;
+
+      try {
+        await applyOperation(operation);
+        await completeSyncOperation(operation);
+      } catch (error) {
+        if (isConnectivityError(error)) {
+          stoppedByConnectivity = true;
+          break;
+        }
+        console.error(`Error syncing conversation ${operation.conversationId}:`, error);
+        if (supabaseStorage.isStorageQuotaError(error)) rejectedByQuota = true;
+        await recordSyncFailure(operation);
+      }
+    }
+  } catch (error) {
+    console.error('Error flushing sync queue:', error);
+  } finally {
+    updateStatus({ isSyncing: false, storageFull: rejectedByQuota });
+  }
+
+  if (currentUserId !== userId) return;
+
+  const remaining = await refreshQueueStatus(userId).catch(() => []);
+  const retryable = remaining.filter((op) => op.attempts < MAX_SYNC_ATTEMPTS);
+
+  if (retryable.length === 0) {
+    retryDelayMs = INITIAL_RETRY_DELAY_MS;
+  } else if (stoppedByConnectivity || !flushRequested) {
+    scheduleRetry();
+  }
+};
+
+/**
+ * Push queued writes to Supabase. Concurrent calls share one run; a call made
+ * during a run triggers another pass right after it.
+ */
+export const flushSyncQueue = (): Promise<void> => {
+  if (flushPromise) {
+    flushRequested = true;
+    return flushPromise;
+  }
+
+  flushPromise = runFlush().finally(() => {
+    flushPromise = null;
+    if (flushRequested) {
+      flushRequested = false;
+      flushSyncQueue();
+    }
+  });
+  return flushPromise;
+};
+
+const handleOnline = () => {
+  updateStatus({ isOnline: true });
+  retryDelayMs = INITIAL_RETRY_DELAY_MS;
+  flushSyncQueue();
+};
+
+const handleOffline = () => {
+  updateStatus({ isOnline: false });
+};
+
+/**
+ * Start background sync for a signed-in user
+ */
+export const startSync = async (userId: string): Promise<void> => {
+  stopSync();
+  currentUserId = userId;
+  retryDelayMs = INITIAL_RETRY_DELAY_MS;
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  try {
+    await resetSyncAttempts(userId);
+    await refreshQueueStatus(userId);
+  } catch (error) {
+    console.error('Error preparing offline cache:', error);
+  }
+
+  flushSyncQueue();
+};
+
+/**
+ * Stop background sync, e.g. on logout. Queued writes stay for the next session.
+ */
+export const stopSync = (): void => {
+  currentUserId = null;
+  clearTimeout(retryTimer);
+  window.removeEventListener('online', handleOnline);
+  window.removeEventListener('offline', handleOffline);
+  updateStatus({ isSyncing: false, pendingCount: 0, failedCount: 0 });
+};
+
+/**
+ * Sign-out: push what is still queued while the session is valid, then remove the
+ * user's cached conversations so the next person on this browser can't read them.
+ * Writes that could not be pushed (e.g. offline) are kept with their cache so they
+ * sync on the user's next sign-in; returns false in that case.
+ */
+export const clearLocalData = async (): Promise<boolean> => {
+  const userId = currentUserId;
+  if (!userId) return true;
+
+  await flushSyncQueue();
+
+  let remaining = 0;
+  try {
+    remaining = (await getSyncOperations(userId)).length;
+  } catch (error) {
+    console.error('Error reading sync queue:', error);
+  }
+  stopSync();
+
+  if (remaining > 0) return false;
+
+  try {
+    await clearUserCache(userId);
+  } catch (error) {
+    console.error('Error clearing offline cache:', error);
+  }
+  return true;
+};
+
+/**
+ * Cached conversations of a user, for showing something before the network answers
+ */
+export const getCachedConversationList = async (userId: string): Promise<Conversation[]> => {
+  try {
+    const cached = await getCachedConversations(userId);
+    return cached.map(fromCachedConversation);
+  } catch (error) {
+    console.error('Error reading cached conversations:', error);
+    return [];
+  }
+};
+
+// Fields a user can change without touching the messages
+const pickMetadata = (conversation: Conversation) => ({
+  title: conversation.title,
+  activeLeafId: conversation.activeLeafId,
+  pinnedAt: conversation.pinnedAt,
+  archivedAt: conversation.archivedAt,
+  folderId: conversation.folderId,
+});
+
+/**
+ * Combine a page from Supabase with the cache. Cached messages are reused when
+ * the server copy hasn't changed since they were stored, and with `includeLocalOnly`
+ * conversations that haven't reached the server yet are added in front.
+ */
+export const mergeWithCache = async (
+  userId: string,
+  serverConversations: Conversation[],
+  includeLocalOnly: boolean
+): Promise<Conversation[]> => {
+  let cached: CachedConversation[] = [];
+  try {
+    cached = await getCachedConversations(userId);
+  } catch (error) {
+    console.error('Error reading cached conversations:', error);
+    return serverConversations;
+  }
+
+  const cachedById = new Map(cached.map((c) => [c.id, c]));
+  const serverIds = new Set(serverConversations.map((c) => c.id));
+
+  const merged = serverConversations.map((conversation) => {
+    const local = cachedById.get(conversation.id);
+    if (!local) return conversation;
+
+    // Renamed, pinned etc. before it was ever opened: only the metadata is pending
+    if (local.messagesLoaded === false) {
+      return local.pendingSync ? { ...conversation, ...pickMetadata(local) } : conversation;
+    }
+    if (!local.messagesLoaded) return conversation;
+    // Unsynced local edits win until they are merged on the next sync; otherwise the cache must be current
+    if (!local.pendingSync && (local.baseVersion === null || local.baseVersion !== conversation.version)) {
+      return conversation;
+    }
+
+    return {
+      ...conversation,
+      ...(local.pendingSync ? pickMetadata(local) : {}),
+      messages: local.messages,
+      messagesLoaded: true,
+      olderMessagesCursor: local.olderMessagesCursor ?? null,
+    };
+  });
+
+  if (!includeLocalOnly) return merged;
+
+  const localOnly = cached
+    .filter((c) => c.pendingSync && !serverIds.has(c.id))
+    .map(fromCachedConversation);
+
+  return [...localOnly, ...merged];
+};
+
+/**
+ * Store a conversation as just loaded from Supabase
+ */
+export const cacheConversation = async (conversation: Conversation): Promise<void> => {
+  const userId = currentUserId;
+  if (!userId) return;
+
+  try {
+    const cached = await getCachedConversation(conversation.id);
+    // While local edits are pending the list may hold unsynced messages; widening the
+    // set of deletable ids with them is harmless, dropping ids seen earlier is not
+    const persistedMessageIds = cached?.pendingSync
+      ? [...new Set([...(cached.persistedMessageIds ?? []), ...messageIds(conversation)])]
+      : messageIds(conversation);
+    await putCachedConversation({
+      ...toCachedConversation(
+        userId,
+        conversation,
+        cached?.pendingSync ?? false,
+        conversation.version ?? cached?.baseVersion ?? null
+      ),
+      persistedMessageIds,
+    });
+  } catch (error) {
+    console.error('Error caching conversation:', error);
+  }
+};
+
+/**
+ * Save a conversation locally and sync it in the background.
+ * Resolves once the conversation is safe in the local cache; only rejects when
+ * neither the cache nor a direct write to Supabase worked.
+ */
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  const userId = currentUserId;
+  if (!userId) throw new Error('User not authenticated');
+
+  try {
+    const cached = await getCachedConversation(conversation.id);
+    await putCachedConversation({
+      ...toCachedConversation(userId, conversation, true, cached?.baseVersion ?? conversation.version ?? null),
+      persistedMessageIds: cached?.persistedMessageIds,
+    });
+    await enqueueSyncOperation({ conversationId: conversation.id, userId, type: 'save' });
+  } catch (error) {
+    // IndexedDB not available (e.g. some private browsing modes): write straight through
+    console.warn('Offline cache unavailable, saving directly:', error);
+    await supabaseStorage.saveConversation({
+      ...conversation,
+      messages: conversation.messages.filter((m) => !m.error),
+    });
+    return;
+  }
+
+  await refreshQueueStatus(userId).catch(() => {});
+  flushSyncQueue();
+};
+
+/**
+ * Delete a conversation locally and on the server once online
+ */
+export const deleteConversation = async (id: string): Promise<void> => {
+  const userId = currentUserId;
+  if (!userId) throw new Error('User not authenticated');
+
+  try {
+    await deleteCachedConversation(id);
+    await enqueueSyncOperation({ conversationId: id, userId, type: 'delete' });
+  } catch (error) {
+    console.warn('Offline cache unavailable, deleting directly:', error);
+    await supabaseStorage.deleteConversation(id);
+    return;
+  }
+
+  // Deleting frees space, so writes rejected by the quota get another chance
+  if (status.storageFull) await resetSyncAttempts(userId).catch(() => {});
+  await refreshQueueStatus(userId).catch(() => {});
+  flushSyncQueue();
+};
+
+/**
+ * Delete everything on the server and in the cache. Needs a connection.
+ */
+export const deleteAllConversations = async (): Promise<void> => {
+  await supabaseStorage.deleteAllConversations();
+
+  const userId = currentUserId;
+  if (!userId) return;
+
+  try {
+    await clearUserCache(userId);
+    await refreshQueueStatus(userId);
+  } catch (error) {
+    console.error('Error clearing offline cache:', error);
+  }
+};
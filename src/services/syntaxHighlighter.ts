@@ -0,0 +1,322 @@
+// src/services/syntaxHighlighter.ts
+
+/**
+ * A small regex tokenizer for the languages the canvas understands. It only
+ * knows comments, strings, numbers, keywords and a few language specifics,
+ * which is enough to make generated code readable without a parser.
+ */
+
+export type TokenType =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'literal'
+  | 'function'
+  | 'type'
+  | 'tag'
+  | 'attr'
+  | 'property'
+  | 'variable'
+  | 'meta';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+export type DiffLineKind = 'added' | 'removed' | 'hunk' | 'meta' | 'context';
+
+interface Rule {
+  // 'identifier' is classified afterwards against the grammar's keyword lists
+  type: TokenType | 'identifier';
+  pattern: RegExp;
+}
+
+interface Grammar {
+  rules: Rule[];
+  keywords?: Set<string>;
+  literals?: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+const rule = (type: Rule['type'], source: RegExp): Rule => ({ type, pattern: new RegExp(source.source, 'y') });
+
+const WHITESPACE = rule('plain', /\s+/);
+const IDENTIFIER = rule('identifier', /[A-Za-z_$][\w$]*/);
+const NUMBER = rule('number', /\b(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)[a-zA-Z]*\b/);
+const DOUBLE_QUOTED = rule('string', /"(?:\\.|[^"\\\n])*"/);
+const SINGLE_QUOTED = rule('string', /'(?:\\.|[^'\\\n])*'/);
+const BACKTICK = rule('string', /`(?:\\[\s\S]|[^`\\])*`/);
+const SLASH_COMMENT = rule('comment', /\/\/[^\n]*/);
+const BLOCK_COMMENT = rule('comment', /\/\*[\s\S]*?(?:\*\/|$)/);
+const HASH_COMMENT = rule('comment', /#[^\n]*/);
+
+const cLike = (keywords: string, literals: string, extra: Rule[] = []): Grammar => ({
+  rules: [WHITESPACE, SLASH_COMMENT, BLOCK_COMMENT, ...extra, DOUBLE_QUOTED, SINGLE_QUOTED, NUMBER, IDENTIFIER],
+  keywords: words(keywords),
+  literals: words(literals),
+});
+
+const JS_KEYWORDS = `break case catch class const continue debugger default delete do else export extends finally for
+  from function if import in instanceof let new of return static super switch this throw try typeof var void while
+  with yield async await as get set`;
+const TS_KEYWORDS = `${JS_KEYWORDS} interface type enum implements namespace declare readonly private protected public
+  abstract keyof infer is satisfies`;
+const JS_LITERALS = 'true false null undefined NaN Infinity';
+
+// JSX tags; the lookbehind keeps comparisons like `a<b` out
+const JSX_TAG = rule('tag', /(?<![\w$)\]])<\/?[A-Za-z][\w.]*|\/>/);
+
+const javascript = cLike(JS_KEYWORDS, JS_LITERALS, [BACKTICK]);
+const typescript = cLike(TS_KEYWORDS, JS_LITERALS, [BACKTICK]);
+const jsx = cLike(JS_KEYWORDS, JS_LITERALS, [BACKTICK, JSX_TAG]);
+const tsx = cLike(TS_KEYWORDS, JS_LITERALS, [BACKTICK, JSX_TAG]);
+
+const cpp = cLike(
+  `auto break case char const continue default do double else enum extern float for goto if inline int long register
+  return short signed sizeof static struct switch typedef union unsigned void volatile while bool class namespace
+  template typename public private protected virtual override new delete this using try catch throw constexpr
+  friend operator`,
+  'true false NULL nullptr',
+  [rule('meta', /#\s*\w+/)]
+);
+
+const java = cLike(
+  `abstract assert boolean break byte case catch char class const continue default do double else enum extends final
+  finally float for if implements import instanceof int interface long native new package private protected public
+  return short static super switch synchronized this throw throws try void volatile while var record`,
+  'true false null',
+  [rule('meta', /@\w+/)]
+);
+
+const csharp = cLike(
+  `abstract as base bool break byte case catch char class const continue decimal default delegate do double else enum
+  event explicit extern finally fixed float for foreach if implicit in int interface internal is lock long namespace
+  new object operator out override params private protected public readonly ref return sealed short static string
+  struct switch this throw try typeof uint ulong using var virtual void while async await get set record`,
+  'true false null',
+  [rule('string', /@"(?:""|[^"])*"/)]
+);
+
+const go = cLike(
+  `break case chan const continue default defer else fallthrough for func go goto if import interface map package
+  range return select struct switch type var bool byte error float32 float64 int int32 int64 rune string uint`,
+  'true false nil iota',
+  [BACKTICK]
+);
+
+const rust = {
+  ...cLike(
+    `as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub
+    ref return self Self static struct super trait type unsafe use where while i32 i64 u8 u32 u64 usize f32 f64 bool
+    str char`,
+    'true false None'
+  ),
+  // Single quotes are chars or lifetimes ('a), never whole strings
+  rules: [
+    WHITESPACE,
+    SLASH_COMMENT,
+    BLOCK_COMMENT,
+    rule('meta', /#!?\[[^\]\n]*\]/),
+    DOUBLE_QUOTED,
+    rule('string', /'(?:\\.|[^'\\\n])'/),
+    rule('type', /'[A-Za-z_]\w*/),
+    NUMBER,
+    rule('function', /[A-Za-z_]\w*!/),
+    IDENTIFIER,
+  ],
+};
+
+const swift = cLike(
+  `associatedtype class deinit enum extension func import init inout let operator protocol struct subscript typealias
+  var break case continue default defer do else fallthrough for guard if in repeat return switch where while as catch
+  is rethrows throw throws try self Self super async await some any private public internal fileprivate open static`,
+  'true false nil',
+  [rule('string', /"""[\s\S]*?(?:"""|$)/), rule('meta', /@\w+/)]
+);
+
+const kotlin = cLike(
+  `as break class continue do else for fun if in interface is object package return super this throw try typealias
+  val var when while by constructor data enum import override private protected public internal sealed companion
+  suspend lateinit open abstract`,
+  'true false null',
+  [rule('string', /"""[\s\S]*?(?:"""|$)/), rule('meta', /@\w+/)]
+);
+
+const php = cLike(
+  `abstract and array as break case catch class clone const continue declare default do echo else elseif empty extends
+  final finally fn for foreach function global if implements include instanceof interface isset list match namespace
+  new or print private protected public readonly require require_once return static switch throw trait try unset use
+  var while yield`,
+  'true false null TRUE FALSE NULL',
+  [rule('meta', /<\?php|\?>/), HASH_COMMENT, rule('variable', /\$[A-Za-z_]\w*/)]
+);
+
+const python: Grammar = {
+  rules: [
+    WHITESPACE,
+    HASH_COMMENT,
+    rule('string', /[rRbBfFuU]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/),
+    rule('string', /[rRbBfFuU]{0,2}(?:"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')/),
+    rule('meta', /@[\w.]+/),
+    NUMBER,
+    IDENTIFIER,
+  ],
+  keywords: words(`and as assert async await break class continue def del elif else except finally for from global if
+    import in is lambda nonlocal not or pass raise return try while with yield match case self`),
+  literals: words('True False None'),
+};
+
+const ruby: Grammar = {
+  rules: [
+    WHITESPACE,
+    HASH_COMMENT,
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    rule('literal', /:[A-Za-z_]\w*[?!]?/),
+    rule('variable', /@{1,2}[A-Za-z_]\w*/),
+    NUMBER,
+    IDENTIFIER,
+  ],
+  keywords: words(`alias and begin break case class def defined do else elsif end ensure for if in module next not or
+    redo rescue retry return self super then undef unless until when while yield require attr_accessor attr_reader`),
+  literals: words('true false nil'),
+};
+
+const html: Grammar = {
+  rules: [
+    WHITESPACE,
+    rule('comment', /<!--[\s\S]*?(?:-->|$)/),
+    rule('meta', /<!DOCTYPE[^>]*>/i),
+    rule('tag', /<\/?[A-Za-z][\w:-]*|\/?>/),
+    rule('attr', /[A-Za-z_:@][\w:.-]*(?==)/),
+    rule('string', /"[^"]*"|'[^']*'/),
+    rule('literal', /&#?\w+;/),
+    rule('plain', /[^<&\s"'=>/]+/),
+  ],
+};
+
+const css: Grammar = {
+  rules: [
+    WHITESPACE,
+    BLOCK_COMMENT,
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    rule('keyword', /@[\w-]+|!important/),
+    rule('number', /#[\da-fA-F]{3,8}\b|-?(?:\d+\.?\d*|\.\d+)(?:[a-zA-Z]+|%)?/),
+    // A property is followed by ":" and a value ending in ";" or "}", which rules out `a:hover {`
+    rule('property', /[\w-]+(?=\s*:[^;{}]*[;}])/),
+    rule('type', /[.#][A-Za-z_-][\w-]*/),
+    rule('function', /[\w-]+(?=\()/),
+    rule('plain', /[\w-]+/),
+  ],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript,
+  js: javascript,
+  typescript,
+  ts: typescript,
+  jsx,
+  react: jsx,
+  tsx,
+  'typescript-react': tsx,
+  html,
+  css,
+  python,
+  c: cpp,
+  cpp,
+  'c++': cpp,
+  java,
+  csharp,
+  php,
+  ruby,
+  go,
+  rust,
+  swift,
+  kotlin,
+};
+
+const classifyIdentifier = (grammar: Grammar, word: string, next: string): TokenType => {
+  if (grammar.keywords?.has(word)) return 'keyword';
+  if (grammar.literals?.has(word)) return 'literal';
+  if (next === '(') return 'function';
+  if (/^[A-Z]/.test(word)) return 'type';
+  return 'plain';
+};
+
+const tokenize = (code: string, grammar: Grammar): Token[] => {
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let pos = 0;
+  while (pos < code.length) {
+    let matched = false;
+    for (const { type, pattern } of grammar.rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (!match || match[0].length === 0) continue;
+
+      const text = match[0];
+      push(type === 'identifier' ? classifyIdentifier(grammar, text, code[pos + text.length]) : type, text);
+      pos += text.length;
+      matched = true;
+      break;
+    }
+    if (!matched) {
+      push('plain', code[pos]);
+      pos += 1;
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Tokenize `code` and split the tokens into lines (multi-line comments and
+ * strings are cut at each newline). Unknown languages come back as plain text.
+ */
+export const tokenizeLines = (code: string, language: string): Token[][] => {
+  const grammar = GRAMMARS[language.toLowerCase()];
+  const tokens: Token[] = grammar ? tokenize(code, grammar) : [{ type: 'plain', text: code }];
+
+  const lines: Token[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+    });
+  }
+  return lines;
+};
+
+export const classifyDiffLine = (line: string): DiffLineKind => {
+  if (line.startsWith('@@')) return 'hunk';
+  if (/^(?:\+\+\+|---|diff |index )/.test(line)) return 'meta';
+  if (line.startsWith('+')) return 'added';
+  if (line.startsWith('-')) return 'removed';
+  return 'context';
+};
+
+/**
+ * Parse a line range such as "3-5,8" (1-based) into the set of line numbers
+ */
+export const parseLineRanges = (spec: string | undefined): Set<number> => {
+  const lines = new Set<number>();
+  if (!spec) return lines;
+
+  for (const part of spec.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) continue;
+    const start = Number(match[1]);
+    // Cap the range so a typo like "1-99999999" can't freeze the tab
+    const end = Math.min(Number(match[2] ?? match[1]), start + 10000);
+    for (let line = start; line <= end; line++) lines.add(line);
+  }
+  return lines;
+};
@@ -0,0 +1,131 @@
+// src/services/textDiff.ts
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  // 1-based line numbers; a deleted line has no new number and vice versa
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+// Above this many LCS cells the changed region is shown as removed + added instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line diff of two texts (longest common subsequence, after trimming the
+ * common prefix and suffix so the usual small edit stays cheap).
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  const result: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  const push = (op: DiffOp, text: string) => {
+    result.push({
+      op,
+      text,
+      oldNumber: op === 'insert' ? undefined : oldNumber++,
+      newNumber: op === 'delete' ? undefined : newNumber++,
+    });
+  };
+
+  a.slice(0, prefix).forEach((line) => push('equal', line));
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    oldMiddle.forEach((line) => push('delete', line));
+    newMiddle.forEach((line) => push('insert', line));
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        push('equal', oldMiddle[i++]);
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        // Removals before additions, as in git
+        push('delete', oldMiddle[i++]);
+      } else {
+        push('insert', newMiddle[j++]);
+      }
+    }
+  }
+
+  a.slice(a.length - suffix).forEach((line) => push('equal', line));
+  return result;
+};
+
+export const countChanges = (lines: DiffLine[]) => ({
+  added: lines.filter((line) => line.op === 'insert').length,
+  removed: lines.filter((line) => line.op === 'delete').length,
+});
+
+/**
+ * Git-style unified diff (`--- a/file`, `+++ b/file`, `@@` hunks) of two texts
+ */
+export const formatUnifiedDiff = (fileName: string, oldText: string, newText: string, contextLines = 3): string => {
+  const lines = diffLines(oldText, newText);
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].op === 'equal') {
+      i++;
+      continue;
+    }
+
+    // A hunk runs until more than two contexts' worth of unchanged lines follow its last change
+    const start = Math.max(0, i - contextLines);
+    let lastChange = i;
+    for (let j = i; j < lines.length; j++) {
+      if (lines[j].op !== 'equal') lastChange = j;
+      else if (j - lastChange > contextLines * 2) break;
+    }
+    const end = Math.min(lines.length, lastChange + contextLines + 1);
+    const hunk = lines.slice(start, end);
+
+    const oldBefore = lines.slice(0, start).filter((line) => line.op !== 'insert').length;
+    const newBefore = lines.slice(0, start).filter((line) => line.op !== 'delete').length;
+    const oldCount = hunk.filter((line) => line.op !== 'insert').length;
+    const newCount = hunk.filter((line) => line.op !== 'delete').length;
+
+    output.push(
+      `@@ -${oldCount ? oldBefore + 1 : oldBefore},${oldCount} +${newCount ? newBefore + 1 : newBefore},${newCount} @@`
+    );
+    hunk.forEach((line) => output.push(`${line.op === 'insert' ? '+' : line.op === 'delete' ? '-' : ' '}${line.text}`));
+    i = end;
+  }
+
+  return output.join('\n');
+};
@@ -0,0 +1,67 @@
+// src/services/userProfileService.ts
+
+import { supabase } from '../lib/supabaseClient';
+import { UserProfileContext } from './contextBuilder';
+
+// Profil dimuat sekali per sesi; GeneralSettings memanggil invalidate setelah menyimpan
+let cachedProfile: { userId: string; profile: UserProfileContext | null } | null = null;
+let pendingLoad: { userId: string; promise: Promise<UserProfileContext | null> } | null = null;
+
+const loadProfile = async (userId: string): Promise<UserProfileContext | null> => {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('full_name, nickname, preferences')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error loading user profile for AI context:', error);
+    return null;
+  }
+
+  return {
+    fullName: data.full_name,
+    nickname: data.nickname,
+    preferences: data.preferences,
+  };
+};
+
+/**
+ * Profile details that are attached to AI requests, cached for the session.
+ * Never throws: a missing profile just means no personalization.
+ */
+export const getUserProfileContext = async (): Promise<UserProfileContext | null> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const userId = session?.user.id;
+    if (!userId) return null;
+
+    if (cachedProfile?.userId === userId) return cachedProfile.profile;
+
+    // Several requests may start before the first load finishes
+    if (pendingLoad?.userId !== userId) {
+      const promise = loadProfile(userId);
+      pendingLoad = { userId, promise };
+    }
+
+    const load = pendingLoad;
+    const profile = await load.promise;
+    // Skip caching if the cache was invalidated while loading
+    if (pendingLoad === load) {
+      cachedProfile = { userId, profile };
+      pendingLoad = null;
+    }
+    return profile;
+  } catch (error) {
+    console.error('Error getting user profile context:', error);
+    return null;
+  }
+};
+
+/**
+ * Drop the cached profile so the next request picks up fresh data
+ */
+export const invalidateUserProfileCache = (): void => {
+  cachedProfile = null;
+  pendingLoad = null;
+};
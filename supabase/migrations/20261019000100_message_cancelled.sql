@@ -0,0 +1,3 @@
+-- Persist the "stopped by user" state of AI messages
+alter table public.messages
+  add column if not exists cancelled boolean not null default false;
@@ -0,0 +1,10 @@
+-- Nickname and free-form custom instructions, sent along with every AI request
+alter table public.user_profiles
+  add column if not exists nickname text,
+  add column if not exists preferences text;
+
+alter table public.user_profiles
+  drop constraint if exists user_profiles_nickname_length,
+  add constraint user_profiles_nickname_length check (char_length(nickname) <= 50),
+  drop constraint if exists user_profiles_preferences_length,
+  add constraint user_profiles_preferences_length check (char_length(preferences) <= 1500);
@@ -0,0 +1,14 @@
+-- Stable ordering and keyset pagination for messages.
+-- Old saves inserted a whole conversation in one statement, so its messages share the same
+-- created_at. seq is the ordering key from here on: new rows take it from the identity sequence
+-- as they are inserted, while existing rows are numbered in whatever order the table scan returns
+-- them, which Postgres does not guarantee to match their original insert order.
+alter table public.messages
+  add column if not exists seq bigint generated always as identity;
+
+create index if not exists messages_conversation_seq_idx
+  on public.messages (conversation_id, seq desc);
+
+-- Sidebar pages: newest conversations first
+create index if not exists conversations_user_created_idx
+  on public.conversations (user_id, created_at desc, id desc);
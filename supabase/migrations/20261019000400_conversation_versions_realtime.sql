@@ -0,0 +1,22 @@
+-- Per-conversation version, bumped by every save (compare-and-swap in the client),
+-- so tabs and devices can tell when someone else wrote in between.
+alter table public.conversations
+  add column if not exists version bigint not null default 1;
+
+-- Stream row changes to open tabs through Supabase Realtime (RLS still applies)
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'conversations'
+  ) then
+    alter publication supabase_realtime add table public.conversations;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'messages'
+  ) then
+    alter publication supabase_realtime add table public.messages;
+  end if;
+end $$;
@@ -0,0 +1,59 @@
+-- Full-text search over message text.
+-- Two documents per message: English (stemmed prose) and "simple" over the text with
+-- camelCase split apart, so identifiers in code blocks match by their parts too
+-- ("reducer" finds useReducer, "state" finds setState).
+alter table public.messages
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(text, '')), 'A') ||
+    setweight(to_tsvector('simple', regexp_replace(coalesce(text, ''), '([a-z0-9])([A-Z])', '\1 \2', 'g')), 'B')
+  ) stored;
+
+create index if not exists messages_search_vector_idx
+  on public.messages using gin (search_vector);
+
+-- Ranked search across the caller's conversations. Runs with the caller's
+-- permissions, so RLS applies; the user_id check is an extra guard.
+-- Snippets mark matches with ⟦ and ⟧ so the client can highlight them without rendering HTML.
+create or replace function public.search_messages(search_query text, max_results int default 30)
+returns table (
+  message_id text,
+  conversation_id text,
+  conversation_title text,
+  conversation_created_at timestamptz,
+  sender text,
+  snippet text,
+  rank real,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+as $$
+  with q as (
+    select websearch_to_tsquery('english', search_query) || websearch_to_tsquery('simple', search_query) as query
+  )
+  select
+    m.id::text,
+    m.conversation_id::text,
+    c.title,
+    c.created_at,
+    m.sender,
+    ts_headline(
+      'english',
+      m.text,
+      q.query,
+      'StartSel=⟦, StopSel=⟧, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    ts_rank_cd(m.search_vector, q.query),
+    m.created_at
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  cross join q
+  where c.user_id = auth.uid()
+    and m.search_vector @@ q.query
+  order by ts_rank_cd(m.search_vector, q.query) desc, m.created_at desc
+  limit least(greatest(max_results, 1), 100);
+$$;
+
+grant execute on function public.search_messages(text, int) to authenticated;
@@ -0,0 +1,22 @@
+-- Conversation branching: every message points at the message it replies to, so editing
+-- an earlier prompt adds a sibling branch instead of deleting what came after it.
+alter table public.messages
+  add column if not exists parent_id text;
+
+-- Existing conversations are linear: each message replies to the one saved before it
+update public.messages m
+set parent_id = p.previous_id
+from (
+  select id, lag(id::text) over (partition by conversation_id order by seq) as previous_id
+  from public.messages
+) p
+where m.id = p.id
+  and m.parent_id is null
+  and p.previous_id is not null;
+
+create index if not exists messages_conversation_parent_idx
+  on public.messages (conversation_id, parent_id);
+
+-- Last message of the branch that is currently shown; null means the newest message
+alter table public.conversations
+  add column if not exists active_leaf_id text;
@@ -0,0 +1,23 @@
+-- Message lifecycle and generation metadata.
+-- `status` replaces the cancelled flag for new code; the flag is kept in sync for older clients.
+alter table public.messages
+  add column if not exists status text not null default 'complete',
+  add column if not exists latency_ms integer,
+  add column if not exists provider text,
+  add column if not exists model text,
+  add column if not exists prompt_tokens integer,
+  add column if not exists completion_tokens integer,
+  add column if not exists attachments jsonb not null default '[]'::jsonb;
+
+update public.messages
+set status = 'cancelled'
+where cancelled and status = 'complete';
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'messages_status_check') then
+    alter table public.messages
+      add constraint messages_status_check
+      check (status in ('pending', 'streaming', 'complete', 'error', 'cancelled'));
+  end if;
+end $$;
@@ -0,0 +1,251 @@
+-- Storage accounting by actual size instead of a per-message estimate.
+-- A message counts its UTF-8 text plus its attachment metadata; a conversation adds its title.
+alter table public.messages
+  add column if not exists size_bytes integer
+  generated always as (octet_length(coalesce(text, '')) + octet_length(attachments::text)) stored;
+
+-- Storage quota per plan. Plans come from user_billing; unknown plans get the free quota.
+create or replace function public.storage_limit_bytes(plan text)
+returns bigint
+language sql
+immutable
+as $$
+  select case plan
+    when 'pro' then 1024::bigint * 1024 * 1024
+    when 'demo' then 250::bigint * 1024 * 1024
+    else 100::bigint * 1024 * 1024
+  end;
+$$;
+
+-- The caller's effective plan; an expired demo counts as free, as in the rate limiter
+create or replace function public.current_billing_plan()
+returns text
+language sql
+stable
+security invoker
+as $$
+  select coalesce(
+    (
+      select case
+        when b.plan = 'demo' and b.expires_at is not null and b.expires_at < now() then 'free'
+        else b.plan
+      end
+      from public.user_billing b
+      where b.user_id = auth.uid()
+    ),
+    'free'
+  );
+$$;
+
+-- Totals for the caller
+create or replace function public.get_storage_usage()
+returns table (
+  used_bytes bigint,
+  conversation_count bigint,
+  message_count bigint,
+  plan text,
+  limit_bytes bigint
+)
+language sql
+stable
+security invoker
+as $$
+  with conversation_sizes as (
+    select
+      coalesce(octet_length(c.title), 0) + coalesce(sum(m.size_bytes), 0) as bytes,
+      count(m.id) as messages
+    from public.conversations c
+    left join public.messages m on m.conversation_id = c.id
+    where c.user_id = auth.uid()
+    group by c.id
+  ),
+  billing as (
+    select public.current_billing_plan() as plan
+  )
+  select
+    coalesce(sum(s.bytes), 0)::bigint,
+    count(s.bytes),
+    coalesce(sum(s.messages), 0)::bigint,
+    billing.plan,
+    public.storage_limit_bytes(billing.plan)
+  from billing
+  left join conversation_sizes s on true
+  group by billing.plan;
+$$;
+
+-- The caller's biggest conversations
+create or replace function public.get_conversation_storage(max_results int default 10)
+returns table (
+  conversation_id text,
+  title text,
+  created_at timestamptz,
+  message_count bigint,
+  used_bytes bigint
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    c.id::text,
+    c.title,
+    c.created_at,
+    count(m.id),
+    (coalesce(octet_length(c.title), 0) + coalesce(sum(m.size_bytes), 0))::bigint as used_bytes
+  from public.conversations c
+  left join public.messages m on m.conversation_id = c.id
+  where c.user_id = auth.uid()
+  group by c.id
+  order by used_bytes desc, c.created_at desc
+  limit least(greatest(max_results, 1), 100);
+$$;
+
+-- Running total per user, so the quota check doesn't have to add up every message on each write.
+-- Kept up to date by the triggers below and counted the same way as get_storage_usage().
+create table if not exists public.storage_usage (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  used_bytes bigint not null default 0
+);
+
+alter table public.storage_usage enable row level security;
+
+drop policy if exists "Users read their own storage usage" on public.storage_usage;
+create policy "Users read their own storage usage"
+  on public.storage_usage
+  for select
+  using (user_id = auth.uid());
+
+-- Add `delta` bytes to a user's total and return the new total
+create or replace function public.add_storage_usage(owner_id uuid, delta bigint)
+returns bigint
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.storage_usage as u (user_id, used_bytes)
+  values (owner_id, greatest(delta, 0))
+  on conflict (user_id) do update
+    set used_bytes = greatest(u.used_bytes + delta, 0)
+  returning u.used_bytes;
+$$;
+
+revoke execute on function public.add_storage_usage(uuid, bigint) from public, anon, authenticated;
+
+-- The client checks the quota before saving, but it can't be trusted to: reject any write that grows
+-- the caller's storage past their limit. Shrinking updates and deletes stay allowed so a full account
+-- can free space. Requests without a user (service role, maintenance) are not limited.
+create or replace function public.track_message_storage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner_id uuid;
+  delta bigint;
+  used bigint;
+  limit_bytes bigint;
+begin
+  if tg_op = 'DELETE' or (tg_op = 'UPDATE' and new.conversation_id is distinct from old.conversation_id) then
+    select c.user_id into owner_id from public.conversations c where c.id = old.conversation_id;
+    -- Not found when the whole conversation is being deleted; track_conversation_storage handles that
+    if owner_id is not null then
+      perform public.add_storage_usage(owner_id, -old.size_bytes);
+    end if;
+    if tg_op = 'DELETE' then
+      return null;
+    end if;
+    delta := new.size_bytes;
+  elsif tg_op = 'UPDATE' then
+    delta := new.size_bytes - old.size_bytes;
+  else
+    delta := new.size_bytes;
+  end if;
+
+  -- Upserts that rewrite a message unchanged end up here with nothing to count
+  if delta = 0 then
+    return null;
+  end if;
+
+  select c.user_id into owner_id from public.conversations c where c.id = new.conversation_id;
+  if owner_id is null then
+    return null;
+  end if;
+
+  used := public.add_storage_usage(owner_id, delta);
+
+  if delta > 0 and auth.uid() is not null then
+    limit_bytes := public.storage_limit_bytes(public.current_billing_plan());
+    if used > limit_bytes then
+      raise exception 'Storage quota exceeded'
+        using errcode = '53400',
+              detail = json_build_object('used_bytes', used, 'limit_bytes', limit_bytes)::text;
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
+
+-- Titles count too. A deleted conversation removes its messages first, while their owner can
+-- still be looked up, rather than leaving them to the cascade.
+create or replace function public.track_conversation_storage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.add_storage_usage(new.user_id, coalesce(octet_length(new.title), 0));
+  elsif tg_op = 'UPDATE' then
+    if new.title is distinct from old.title or new.user_id is distinct from old.user_id then
+      perform public.add_storage_usage(old.user_id, -coalesce(octet_length(old.title), 0));
+      perform public.add_storage_usage(new.user_id, coalesce(octet_length(new.title), 0));
+    end if;
+  else
+    delete from public.messages where conversation_id = old.id;
+    perform public.add_storage_usage(old.user_id, -coalesce(octet_length(old.title), 0));
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists messages_track_storage on public.messages;
+create trigger messages_track_storage
+  after insert or update or delete on public.messages
+  for each row
+  execute function public.track_message_storage();
+
+drop trigger if exists conversations_track_storage on public.conversations;
+create trigger conversations_track_storage
+  after insert or update on public.conversations
+  for each row
+  execute function public.track_conversation_storage();
+
+drop trigger if exists conversations_untrack_storage on public.conversations;
+create trigger conversations_untrack_storage
+  before delete on public.conversations
+  for each row
+  execute function public.track_conversation_storage();
+
+-- Start every user off with what they already store
+insert into public.storage_usage (user_id, used_bytes)
+select
+  c.user_id,
+  sum(coalesce(octet_length(c.title), 0) + coalesce(m.bytes, 0))::bigint
+from public.conversations c
+left join (
+  select conversation_id, sum(size_bytes) as bytes
+  from public.messages
+  group by conversation_id
+) m on m.conversation_id = c.id
+group by c.user_id
+on conflict (user_id) do update
+  set used_bytes = excluded.used_bytes;
+
+grant execute on function public.storage_limit_bytes(text) to authenticated;
+grant execute on function public.current_billing_plan() to authenticated;
+grant execute on function public.get_storage_usage() to authenticated;
+grant execute on function public.get_conversation_storage(int) to authenticated;
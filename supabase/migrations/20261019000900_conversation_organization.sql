@@ -0,0 +1,55 @@
+-- Folders, pinning and archiving for the sidebar.
+create table if not exists public.conversation_folders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  constraint conversation_folders_name_length check (char_length(name) between 1 and 60)
+);
+
+create index if not exists conversation_folders_user_idx
+  on public.conversation_folders (user_id, name);
+
+alter table public.conversation_folders enable row level security;
+
+drop policy if exists "Users manage their own folders" on public.conversation_folders;
+create policy "Users manage their own folders"
+  on public.conversation_folders
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Pinned conversations sort by pin time; archived ones are hidden from the list but still searchable.
+-- Deleting a folder moves its conversations back to the main list.
+alter table public.conversations
+  add column if not exists pinned_at timestamptz,
+  add column if not exists archived_at timestamptz,
+  add column if not exists folder_id uuid references public.conversation_folders (id) on delete set null;
+
+-- The client loads every organized conversation up front, since they can be older than the loaded pages
+create index if not exists conversations_user_organized_idx
+  on public.conversations (user_id)
+  where pinned_at is not null or archived_at is not null or folder_id is not null;
+
+-- A conversation can only be filed in a folder of its own user. The folder lookup goes through
+-- the folders' RLS as well, so another user's folder id never matches.
+drop policy if exists "Conversations are filed in own folders (insert)" on public.conversations;
+create policy "Conversations are filed in own folders (insert)"
+  on public.conversations
+  as restrictive
+  for insert
+  with check (
+    folder_id is null
+    or exists (select 1 from public.conversation_folders f where f.id = folder_id and f.user_id = auth.uid())
+  );
+
+drop policy if exists "Conversations are filed in own folders (update)" on public.conversations;
+create policy "Conversations are filed in own folders (update)"
+  on public.conversations
+  as restrictive
+  for update
+  using (true)
+  with check (
+    folder_id is null
+    or exists (select 1 from public.conversation_folders f where f.id = folder_id and f.user_id = auth.uid())
+  );
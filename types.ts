@@ -4,10 +4,52 @@ export enum MessageSender {
   AI = 'ai',
 }
 
+export type MessageErrorKind = 'network' | 'cors' | 'http' | 'empty' | 'format' | 'timeout' | 'unknown';
+
+export interface MessageError {
+  kind: MessageErrorKind;
+  message: string;
+  status?: number;
+}
+
+// pending: waiting for the first chunk; streaming: text is arriving
+export type MessageStatus = 'pending' | 'streaming' | 'complete' | 'error' | 'cancelled';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Bytes
+  size: number;
+  url?: string;
+}
+
 export interface Message {
   id: string;
   text: string;
   sender: MessageSender;
+  // ISO timestamp; missing on messages cached before it was tracked
+  createdAt?: string;
+  // Treated as 'complete' when missing
+  status?: MessageStatus;
+  // Set when generation was stopped by the user; `text` holds the partial output
+  cancelled?: boolean;
+  // Set when the request failed; such messages are shown with a Retry action and never persisted
+  error?: MessageError;
+  // Message this one replies to; null for the first message. Edits create siblings with the same parent.
+  parentId?: string | null;
+  // AI messages only: time from sending the request until the answer was complete
+  latencyMs?: number;
+  provider?: string;
+  model?: string;
+  // Only reported by some providers
+  usage?: TokenUsage;
+  attachments?: MessageAttachment[];
 }
 
 export interface Conversation {
@@ -15,4 +57,27 @@ export interface Conversation {
   title: string;
   messages: Message[];
   createdAt: string;
+  // Server-side version, bumped by every save; used to detect concurrent writes
+  version?: number;
+  // Last message of the branch being shown; the newest message when not set
+  activeLeafId?: string | null;
+  // Set while pinned to the top of the sidebar; pinned conversations sort by this
+  pinnedAt?: string | null;
+  // Set while archived: hidden from the sidebar list but still found by search
+  archivedAt?: string | null;
+  folderId?: string | null;
+  // Client-side paging state, never persisted. Conversations from the sidebar list
+  // start without messages; they are fetched when the conversation is opened.
+  messagesLoaded?: boolean;
+  // Cursor for the next page of older messages, or null when everything is loaded
+  olderMessagesCursor?: number | null;
+}
+
+// Sidebar changes that leave the messages alone
+export type ConversationChanges = Partial<Pick<Conversation, 'title' | 'pinnedAt' | 'archivedAt' | 'folderId'>>;
+
+export interface ConversationFolder {
+  id: string;
+  name: string;
+  createdAt: string;
 }